@@ -0,0 +1,1439 @@
+/*
+ * Access to edit history (.edtz) files
+ *
+ * Nothing in this module depends on Obsidian so it can be used from outside
+ * the plugin, eg from Node to examine or test edit history files.
+ */
+import { DiffMatchPatch } from "diff-match-patch-ts";
+// @ts-ignore: Complains about default export this way, but since jszip 3.10
+// this is the recommended way
+import JSZip from "jszip";
+
+import { logDbg, logError, logInfo, logWarn } from "./log";
+
+export const EDIT_HISTORY_FILE_EXT = ".edtz";
+// Entry with the labels of the edits, not an edit itself. Edit filenames are
+// base 36 numbers optionally ending in "$" so they can't clash with this
+export const LABELS_FILENAME = "labels.json";
+// Entry with the format version and the metadata of the edits, not an edit
+// itself. Edit history files written before the manifest existed don't have
+// it, readers need to work without it
+export const MANIFEST_FILENAME = "manifest.json";
+// Version of the edit history file format, increase when the format changes
+// so readers can detect and migrate older files:
+// - 0: no manifest
+// - 1: manifest with per-edit metadata
+export const EDIT_HISTORY_FORMAT_VERSION = 1;
+
+// XXX Cleanup all naming:
+//
+//     - revision/edit: each individual file stored inside the zip
+//       file containg a dmp patch in text form (collection of
+//       contextless dmp diffs). Has a unique date and time. The
+//       file stores the diff between this version and the previous
+//       one and has the date at which the current version was
+//       saved. First the whole version is saved verbatim without
+//       diffs, when the next version comes across, then the current
+//       version is diffed against the verbatim version and the
+//       verbatin replaced with that diff
+//
+//     - diff: a version has one or more diffs (or none if the file
+//       was stored verbatim).
+//
+//     - dmp diff: A dmp diff is context-full, it can be traversed.
+//       Each diff has one DiffOp operation (delete, equal, insert)
+//       with one or more lines of payload
+//
+//     - dmp patch: A dmp a patch is context-less, ie a set of diffs
+//       that requires the file in order to be applied. Only has
+//       delete and insert operations, equal has been removed so
+//       they cannot be applied without the original file
+
+// Edit filenames used to be the UTC epoch in seconds, but that caused edits
+// less than one second apart to be dropped, now they are the UTC epoch in
+// milliseconds. Both can be told apart because epochs in milliseconds are
+// above this value from 1973 onwards, and epochs in seconds are below this
+// value until year 5138
+const MIN_MS_EDIT_EPOCH = 1e11;
+
+/**
+ * @return the UTC epoch in milliseconds of the edit
+ */
+export function getEditEpoch(editFilename: string): number {
+    // Note parseInt ignores the trailing "$", if any
+    const epoch = parseInt(editFilename, 36);
+    return (epoch < MIN_MS_EDIT_EPOCH) ? epoch * 1000 : epoch;
+}
+
+export function getEditDate(editFilename: string): Date {
+    return new Date(getEditEpoch(editFilename));
+}
+
+export function getEditLocalDateStr(editFilename: string): string {
+    return getEditDate(editFilename).toLocaleString();
+}
+
+export function getEditFileTime(editFilename: string): number {
+    // Note this ignores the hh:mm:ss part of the time
+    let d = getEditDate(editFilename);
+    d = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    const t = d.getTime();
+    return t;
+}
+
+export function isEditFilename(filename: string): boolean {
+    return /^[0-9a-z]+\$?$/.test(filename);
+}
+
+/**
+ * @return the key identifying the edit in the edit history file metadata,
+ *         the UTC epoch in milliseconds in base 36, which doesn't change when
+ *         the edit is stored in full or as a diff, or when an edit named in
+ *         seconds is renamed in milliseconds
+ */
+export function getEditKey(editFilename: string): string {
+    return getEditEpoch(editFilename).toString(36);
+}
+
+export function getEditIsDiff(editFilename: string): boolean {
+    return !editFilename.endsWith("$");
+}
+
+export function buildEditFilename(mtime: number, isDiff: boolean): string {
+    const utcepoch = Math.floor(mtime);
+    const editFilename = utcepoch.toString(36) + (isDiff ? "" : "$");
+    return editFilename;
+}
+
+/**
+ * Sort in place
+ */
+export function sortEdits(filenames: string[], descending = true) {
+    const i = descending ? 1 : -1;
+    // Note this cannot do straight alphabetical sort on the base-36 encoded
+    // epochs since strings can be different lengths (and in seconds or in
+    // milliseconds), convert to epoch before sorting
+    filenames.sort((a,b) => i * (getEditEpoch(b) - getEditEpoch(a)));
+}
+
+/**
+ * @return the SHA-256 of the data as a hex string
+ */
+export async function computeHash(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return Array.from(new Uint8Array(digest))
+        .map((b: number) => ("0" + b.toString(16)).slice(-2))
+        .join("");
+}
+
+/**
+ * Limits on the edits kept in an edit history file, Infinity for no limit
+ */
+export interface EditHistoryLimits {
+    // Maximum number of edits to keep
+    maxEdits: number;
+    // Maximum age in milliseconds of the edits to keep
+    maxEditAgeMs: number;
+    // Maximum size in bytes of the history file
+    maxEditHistoryFileSize: number;
+    // Maximum number of consecutive edits stored as patches, every this many
+    // edits one is stored in full (a keyframe) so reconstructing an old
+    // edit doesn't need to apply every patch from the most recent edit
+    keyframeInterval: number;
+    // Thin out edits older than a day, see EditHistoryFile.thin
+    thinEdits: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+const MONTH_MS = 30 * DAY_MS;
+
+/**
+ * Retention tiers used when thinning edits, each edit older than maxAgeMs is
+ * thinned to one edit per bucketMs, the first tier matching the edit age
+ * applies
+ */
+const THINNING_TIERS = [
+    { maxAgeMs: DAY_MS, bucketMs: 0 },
+    { maxAgeMs: WEEK_MS, bucketMs: HOUR_MS },
+    { maxAgeMs: MONTH_MS, bucketMs: DAY_MS },
+    { maxAgeMs: Infinity, bucketMs: WEEK_MS },
+];
+
+/**
+ * Name and description given by the user to an edit, like a commit message
+ */
+export interface EditLabel {
+    label: string;
+    message: string;
+}
+
+/**
+ * Information about an edit recorded when the edit was stored, so it can be
+ * displayed without rebuilding the version of the edit
+ */
+export interface EditMetadata {
+    // Size of the version in characters, or bytes for binary edits
+    size: number;
+    // Characters added and removed with respect to the most recent edit at
+    // the time this edit was stored, 0 for binary edits
+    added: number;
+    removed: number;
+    // Device the edit was stored on, "" if unknown
+    device: string;
+}
+
+/**
+ * Contents of the MANIFEST_FILENAME entry
+ */
+interface EditHistoryManifest {
+    formatVersion: number;
+    // Version of the plugin or tool that last wrote the edit history file
+    pluginVersion: string;
+    // Metadata of the edits keyed by getEditKey
+    edits: { [key: string]: EditMetadata };
+}
+
+/**
+ * Find the compressed size of each entry by walking the zip central
+ * directory.
+ *
+ * jszip doesn't expose the compressed size other than via the internal field
+ * _data, see https://github.com/Stuk/jszip/issues/247
+ * See https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+function readZipCompressedSizes(data: ArrayBuffer): Map<string, number> {
+    const compressedSizes = new Map<string, number>();
+    const view = new DataView(data);
+    // The end of central directory record is at least 22 bytes and at the end
+    // of the file, but can be followed by a variable length comment, search
+    // backwards for the signature
+    let eocd = data.byteLength - 22;
+    while ((eocd >= 0) && (view.getUint32(eocd, true) != 0x06054b50)) {
+        eocd--;
+    }
+    if (eocd < 0) {
+        logError("Can't find zip end of central directory");
+        return compressedSizes;
+    }
+    const numEntries = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    for (let i = 0; i < numEntries; ++i) {
+        if (view.getUint32(offset, true) != 0x02014b50) {
+            logError("Bad zip central directory entry signature at", offset);
+            break;
+        }
+        const compressedSize = view.getUint32(offset + 20, true);
+        const filenameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        // Edit filenames are ASCII, no need for utf-8 decoding
+        const filename = String.fromCharCode(...new Uint8Array(data, offset + 46, filenameLength));
+        compressedSizes.set(filename, compressedSize);
+        offset += 46 + filenameLength + extraLength + commentLength;
+    }
+
+    return compressedSizes;
+}
+
+/**
+ * In-memory contents of an edit history file.
+ *
+ * The edit history file is a zip file with one entry per edit, the most
+ * recent edit stored in full and older edits stored as the reverse
+ * diff-match-patch patch to go from the immediately newer edit to that edit.
+ * Some older edits are also stored in full (keyframes), so an edit can be
+ * reconstructed starting from the nearest newer keyframe. The labels of the
+ * edits, if any, and the manifest with the format version and the edit
+ * metadata are stored in JSON entries.
+ */
+export class EditHistoryFile {
+    dmpobj: DiffMatchPatch;
+    zip: JSZip;
+    // Size in bytes of the edit history file this was last loaded from or
+    // saved to, 0 if never loaded or saved
+    size = 0;
+    // Compressed size of each edit, as of the last load or save
+    compressedSizes: Map<string, number> = new Map();
+    // Labels of the edits keyed by getEditKey, stored in the LABELS_FILENAME
+    // entry
+    labels: Map<string, EditLabel> = new Map();
+    // Format version of the edit history file as loaded, 0 if loaded from a
+    // file without manifest. Always written as EDIT_HISTORY_FORMAT_VERSION
+    formatVersion: number = EDIT_HISTORY_FORMAT_VERSION;
+    // Version of the plugin that last wrote the edit history file
+    pluginVersion = "";
+    // Metadata of the edits keyed by getEditKey, stored in the
+    // MANIFEST_FILENAME entry. Edits stored before the manifest existed have
+    // no metadata
+    metadata: Map<string, EditMetadata> = new Map();
+
+    constructor(dmpobj: DiffMatchPatch) {
+        this.dmpobj = dmpobj;
+        // XXX Review perf notes at https://stuk.github.io/jszip/documentation/limitations.html
+        this.zip = new JSZip();
+    }
+
+    async load(data: ArrayBuffer) {
+        await this.zip.loadAsync(data);
+        this.size = data.byteLength;
+        this.compressedSizes = readZipCompressedSizes(data);
+        this.labels = new Map();
+        const labelsFile = this.zip.file(LABELS_FILENAME);
+        if (labelsFile != null) {
+            try {
+                const labels = JSON.parse(await labelsFile.async("string"));
+                for (const key of Object.keys(labels)) {
+                    this.labels.set(key, labels[key]);
+                }
+            } catch (e) {
+                logError("Can't parse edit labels", e);
+            }
+        }
+        this.formatVersion = 0;
+        this.pluginVersion = "";
+        this.metadata = new Map();
+        const manifestFile = this.zip.file(MANIFEST_FILENAME);
+        if (manifestFile != null) {
+            try {
+                const manifest: EditHistoryManifest = JSON.parse(await manifestFile.async("string"));
+                this.formatVersion = manifest.formatVersion;
+                this.pluginVersion = manifest.pluginVersion || "";
+                const edits = manifest.edits || {};
+                for (const key of Object.keys(edits)) {
+                    this.metadata.set(key, edits[key]);
+                }
+            } catch (e) {
+                logError("Can't parse edit history manifest", e);
+            }
+        }
+        if (this.formatVersion > EDIT_HISTORY_FORMAT_VERSION) {
+            // Try to read it anyway, but note it will be written in the
+            // current format
+            logWarn("Edit history file format version", this.formatVersion, 
+                "newer than supported version", EDIT_HISTORY_FORMAT_VERSION);
+        }
+    }
+
+    /**
+     * @return the contents of the edit history file
+     */
+    async generate(): Promise<ArrayBuffer> {
+        // Drop the labels of edits that no longer exist (eg purged)
+        const editKeys = new Set(this.listEdits().map(getEditKey));
+        const labels: { [key: string]: EditLabel } = {};
+        this.labels.forEach((label: EditLabel, key: string) => {
+            if (editKeys.has(key)) {
+                labels[key] = label;
+            }
+        });
+        if (Object.keys(labels).length > 0) {
+            this.zip.file(LABELS_FILENAME, JSON.stringify(labels), { compression: "DEFLATE" });
+        } else {
+            this.zip.remove(LABELS_FILENAME);
+        }
+        const manifest: EditHistoryManifest = {
+            formatVersion: EDIT_HISTORY_FORMAT_VERSION,
+            pluginVersion: this.pluginVersion,
+            edits: {},
+        };
+        this.metadata.forEach((metadata: EditMetadata, key: string) => {
+            if (editKeys.has(key)) {
+                manifest.edits[key] = metadata;
+            }
+        });
+        this.zip.file(MANIFEST_FILENAME, JSON.stringify(manifest), { compression: "DEFLATE" });
+        this.formatVersion = EDIT_HISTORY_FORMAT_VERSION;
+        const data = await this.zip.generateAsync({type: "arraybuffer", compression: "DEFLATE"});
+        this.size = data.byteLength;
+        this.compressedSizes = readZipCompressedSizes(data);
+        return data;
+    }
+
+    /**
+     * @return the edit filenames, most recent first
+     */
+    listEdits(): string[] {
+        // jszip seems to return newest files first, so arguably it would be
+        // enough with getting the first file in the list, but go through all
+        // of them and sort for robustness
+        const filepaths: string[] = [];
+        this.zip.forEach(function (relativePath: string) {
+            // Ignore entries that are not edits, eg labels
+            if (isEditFilename(relativePath)) {
+                filepaths.push(relativePath);
+            }
+        });
+        // Sort most recent first
+        sortEdits(filepaths);
+
+        return filepaths;
+    }
+
+    getEditCompressedSize(editFilename: string): number {
+        return this.compressedSizes.get(editFilename) || 0;
+    }
+
+    /**
+     * @return the label of the edit, null if not labeled
+     */
+    getEditLabel(editFilename: string): EditLabel|null {
+        return this.labels.get(getEditKey(editFilename)) || null;
+    }
+
+    /**
+     * @param label the label to set, null to remove the label
+     */
+    setEditLabel(editFilename: string, label: EditLabel|null) {
+        if (label == null) {
+            this.labels.delete(getEditKey(editFilename));
+        } else {
+            this.labels.set(getEditKey(editFilename), label);
+        }
+    }
+
+    /**
+     * @return the metadata of the edit, null if the edit was stored without
+     *         metadata
+     */
+    getEditMetadata(editFilename: string): EditMetadata|null {
+        return this.metadata.get(getEditKey(editFilename)) || null;
+    }
+
+    /**
+     * @return the raw contents of the edit, either the full version or the
+     *         patch, depending on getEditIsDiff
+     */
+    async getEditData(editFilename: string): Promise<string> {
+        return await this.zip.file(editFilename).async("string");
+    }
+
+    /**
+     * @return the raw contents of a binary edit, always stored in full
+     */
+    async getEditBinaryData(editFilename: string): Promise<ArrayBuffer> {
+        return await this.zip.file(editFilename).async("arraybuffer");
+    }
+
+    /**
+     * @return the hash of the contents of a binary edit, "" if not a binary
+     *         edit
+     */
+    getEditHash(editFilename: string): string {
+        return this.zip.file(editFilename)?.comment || "";
+    }
+
+    /**
+     * @return the index in filepaths of the nearest edit at or newer than the
+     *         edit at the given index that is stored in full, 0 if none
+     */
+    getKeyframeIndex(filepaths: string[], index: number): number {
+        while ((index > 0) && getEditIsDiff(filepaths[index])) {
+            index--;
+        }
+        return index;
+    }
+
+    /**
+     * Rebuild the version of every edit, most recent first, by applying the
+     * patches in reverse. If one of the edits is stored fully, discard the
+     * accumulated patched data and use the full data.
+     *
+     * @param callback called with the edit filename, the version of the note
+     *        at that edit, the raw edit data and the index of the edit in
+     *        listEdits(). Iteration stops if the callback returns true. If the
+     *        callback is async it's awaited before rebuilding the next
+     *        version.
+     * @param fromEdit if not empty, skip the edits newer than the nearest
+     *        keyframe needed to rebuild this edit
+     */
+    async forEachVersion(callback: (editFilename: string, data: string, editData: string, index: number) => boolean | void | Promise<boolean | void>, fromEdit = "") {
+        const filepaths = this.listEdits();
+        const fromIndex = (fromEdit == "") ? 0 : this.getKeyframeIndex(filepaths, Math.max(0, filepaths.indexOf(fromEdit)));
+        let data = "";
+        for (let i = fromIndex; i < filepaths.length; ++i) {
+            const filepath = filepaths[i];
+            // filepath contains the negative backward diff to go from the
+            // immediately newer date to filepath's date
+            const editData = await this.getEditData(filepath);
+            if (getEditIsDiff(filepath)) {
+                // Rebuild the data from the diff applied to the current data
+                const patch = this.dmpobj.patch_fromText(editData);
+                // XXX This could collect patches and apply them in a single
+                //     call after the loop, not clear it's faster
+                data = this.dmpobj.patch_apply(patch, data)[0];
+            } else {
+                // The full file was stored, there's no diff
+                data = editData;
+            }
+            if (await callback(filepath, data, editData, i)) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Like forEachVersion but also for binary edit history files, whose edits
+     * are all stored in full and are passed to the callback as binary data
+     */
+    async forEachVersionData(callback: (editFilename: string, data: string|ArrayBuffer) => Promise<void>) {
+        const filepaths = this.listEdits();
+        if ((filepaths.length > 0) && (this.getEditHash(filepaths[0]) != "")) {
+            for (const filepath of filepaths) {
+                await callback(filepath, await this.getEditBinaryData(filepath));
+            }
+        } else {
+            await this.forEachVersion(async (filepath: string, data: string) => {
+                await callback(filepath, data);
+            });
+        }
+    }
+
+    /**
+     * @param cache versions already rebuilt, keyed by edit filename. If a
+     *        cached version is nearer than the nearest keyframe, the version
+     *        is rebuilt from the cached one. The rebuilt version is added to
+     *        the cache.
+     * @return the version of the note at the given edit, null if not found
+     */
+    async getVersion(editFilename: string, cache: Map<string, string>|null = null): Promise<string|null> {
+        const version = cache?.get(editFilename);
+        if (version !== undefined) {
+            return version;
+        }
+        const filepaths = this.listEdits();
+        const index = filepaths.indexOf(editFilename);
+        if (index == -1) {
+            return null;
+        }
+        let i = this.getKeyframeIndex(filepaths, index);
+        let data = await this.getEditData(filepaths[i]);
+        if (cache != null) {
+            for (let j = index - 1; j > i; --j) {
+                const cachedData = cache.get(filepaths[j]);
+                if (cachedData !== undefined) {
+                    i = j;
+                    data = cachedData;
+                    break;
+                }
+            }
+        }
+        // Apply the patches from the starting version up to the given edit
+        while (i < index) {
+            i++;
+            const patch = this.dmpobj.patch_fromText(await this.getEditData(filepaths[i]));
+            data = this.dmpobj.patch_apply(patch, data)[0];
+        }
+        cache?.set(editFilename, data);
+
+        return data;
+    }
+
+    /**
+     * @return the version of the note at the given UTC epoch in milliseconds,
+     *         ie the version of the most recent edit done at or before that
+     *         epoch, null if there's no edit that old
+     */
+    async getVersionAt(epoch: number): Promise<string|null> {
+        const editFilename = this.listEdits().find((filepath: string) => getEditEpoch(filepath) <= epoch);
+        if (editFilename === undefined) {
+            return null;
+        }
+        return await this.getVersion(editFilename);
+    }
+
+    /**
+     * Annotate each line of the version at the given edit with the edit that
+     * most recently modified that line, going through older versions until
+     * all the lines are annotated
+     *
+     * @param onProgress called with the index of every edit visited
+     * @return the lines of the version at the given edit and the edit
+     *         filename of each line, no lines if the edit is not found
+     */
+    async annotateLines(editFilename: string, onProgress: (index: number) => void = () => {}): Promise<{ lines: string[], edits: string[] }> {
+        let annots : string[] = [];
+        let lineToRefLine : number[] = [];
+        let lines : string[] = [];
+        let annotate = false;
+        let remainingAnnots = 0;
+        let data = "";
+        let newerData = "";
+        let prevFilepath = "";
+
+        await this.forEachVersion((filepath: string, version: string, diff: string, ifp: number) => {
+            onProgress(ifp);
+            // Loop over filepaths,
+            // - first rebuilding the file contents for the editFilename
+            // - once found, keep rebuilding versions and also store the time
+            //   annotation for each line (ie time of the edit that most
+            //   recently modified that line)
+            newerData = data;
+            data = version;
+            if (!annotate && (editFilename == filepath)) {
+                // Note split returns 2 for a string with a single \n, no need
+                // to +1
+                lines = data.split("\n");
+                const numLines = lines.length;
+                annots = new Array(numLines).fill("");
+                // lineToRefLine[i] : for line i of the current data, what is
+                // the line of the reference filepath. Could be -1 if the
+                // reference filepath doesn't contain that line and could have
+                // less than the reference lines if the current filepath doesn't
+                // contain that line
+                lineToRefLine = Array.from({ length: numLines + 1 }, (_, i) => i);
+                annotate = true;
+                prevFilepath = filepath;
+                remainingAnnots = annots.length;
+            } else if (annotate) {
+                // Get the diff to go from the newer version to the older
+                // version (backwards diff), so newer lines appear as deletions
+                // and viceversa (this allows to replace the line diff with with
+                // the stored diffs in the future, which also store a backwards
+                // diff)
+                // Use linemode since we are interested in full line changes,
+                // but note that line diffs still include carriage returns
+                // inside so they need to be looped over below
+                // XXX This should use the patch and not recreate the diff, but
+                //     patches are contextless and require tracking how lines
+                //     are inserted or deleted as if the patch were applied
+                // Terminate the last line so it's diffed as a full line
+                // even if it doesn't end in a carriage return
+                const diffs = this.dmpobj.diff_lineMode(newerData + "\n", data + "\n");
+                let line = 0;
+                for (const [op, diffData] of diffs) {
+                    // Counting diffs and diff_linemode above are by far the
+                    // hotspots of this function (eg 280ms and 170ms each).
+                    // For counting lines .split().length is 270ms vs.
+                    // .match().length 346ms
+                    const numLines = diffData.split("\n").length-1;
+                    for (let i=0; i < numLines; ++i) {
+                        const refLine = lineToRefLine[line];
+                        // Note DiffOp can't be imported here, see main.ts
+                        switch (op as number) {
+                            case -1:
+                                // If the old file doesn't have this line, it
+                                // means the new file inserted the line, annotate
+                                // as such unless it's already annotated
+                                lineToRefLine.splice(line, 1);
+                                if ((refLine != -1) && (annots[refLine] == "")) {
+                                    annots[refLine] = prevFilepath;
+                                    remainingAnnots--;
+                                }
+                            break;
+                            case 1:
+                                // The new file doesn't have this line, it means
+                                // the new file deleted it, nothing to annotate,
+                                // but tag this line as not present 
+                                lineToRefLine.splice(line, 0, -1);
+                                line++;
+                            break;
+                            case 0:
+                                line++;
+                            break;
+                        }
+                        // Early exit if all the lines have annotations. This is
+                        // unlikely to hit unless at some point the whole file
+                        // was rewritten
+                        if (remainingAnnots == 0) {
+                            break;
+                        }
+                    }
+                    if (remainingAnnots == 0) {
+                        break;
+                    }
+                }
+                prevFilepath = filepath;
+            }
+            // Stop once all the lines are annotated
+            return (annotate && (remainingAnnots == 0));
+        });
+
+        // Lines still not annotated after going through all the edits were
+        // already present in the oldest edit, annotate them with it (this
+        // doesn't apply if the loop exited early because all lines were
+        // annotated)
+        if (annotate && (remainingAnnots > 0)) {
+            for (let i=0; i < annots.length; ++i) {
+                if (annots[i] == "") {
+                    annots[i] = prevFilepath;
+                }
+            }
+        }
+
+        return { lines: lines, edits: annots };
+    }
+
+    /**
+     * Remove edits over the given limits, oldest first
+     *
+     * @param nowMs UTC epoch in milliseconds to calculate edit ages against
+     * @param incomingEdits number of edits that will be added after purging
+     *        and need to be accounted for when checking the maximum number of
+     *        edits
+     * @return the filenames of the purged edits
+     */
+    purge(limits: EditHistoryLimits, nowMs: number, incomingEdits = 0): string[] {
+        const filepaths = this.listEdits();
+        const purged: string[] = [];
+        let zipFileSize = this.size;
+        while (filepaths.length > 0) {
+            let purge = false;
+            // Note entries are purged last entry first
+            const filepath = filepaths[filepaths.length-1];
+            if (filepaths.length + incomingEdits > limits.maxEdits) {
+                logInfo("Will purge entry", filepath, "over max count",
+                    filepaths.length, "+", incomingEdits, ">", limits.maxEdits);
+                purge = true;
+            }
+            const filepathAgeMs = nowMs - getEditEpoch(filepath);
+            if (filepathAgeMs > limits.maxEditAgeMs) {
+                logInfo("Will purge entry", filepath, "over max age",
+                    filepathAgeMs / 1000, ">", limits.maxEditAgeMs / 1000);
+                purge = true;
+            }
+            if (zipFileSize > limits.maxEditHistoryFileSize) {
+                logInfo("Will purge entry", filepath, "over max size",
+                    zipFileSize, ">", limits.maxEditHistoryFileSize);
+                purge = true;
+                zipFileSize -= this.getEditCompressedSize(filepath);
+            }
+            if (!purge) {
+                // Entries are purged from the end, loop can exit if
+                // this entry is not purged
+                break;
+            }
+            logInfo("Purging entry", filepath);
+            filepaths.pop();
+            this.zip.remove(filepath);
+            purged.push(filepath);
+        }
+
+        return purged;
+    }
+
+    /**
+     * Merge edits with a tiered retention so the history stays long while the
+     * edit history file stays small: keep every edit from the last day, the
+     * most recent edit per hour for the last week, per day for the last
+     * month, and per week after that.
+     *
+     * The edit older than the removed ones is re-patched against the edit
+     * newer than the removed ones, so the history stays continuous. Buckets
+     * are aligned to UTC epoch multiples of the bucket duration. Labeled
+     * edits are never removed.
+     *
+     * @param nowMs UTC epoch in milliseconds to calculate edit ages against
+     * @param keyframeInterval see appendEdit
+     * @return the filenames of the removed edits
+     */
+    async thin(nowMs: number, keyframeInterval = Infinity): Promise<string[]> {
+        const filepaths = this.listEdits();
+        const seenBuckets = new Set<string>();
+        const thinned = new Set<string>();
+        for (const filepath of filepaths) {
+            const epoch = getEditEpoch(filepath);
+            const ageMs = nowMs - epoch;
+            const tier = THINNING_TIERS.findIndex(tier => ageMs <= tier.maxAgeMs);
+            const bucketMs = THINNING_TIERS[tier].bucketMs;
+            if (bucketMs == 0) {
+                continue;
+            }
+            // Edits are sorted most recent first, so this keeps the most
+            // recent edit of each bucket. Labeled edits are always kept
+            const bucket = tier + ":" + Math.floor(epoch / bucketMs);
+            if (seenBuckets.has(bucket) && (this.getEditLabel(filepath) == null)) {
+                thinned.add(filepath);
+            } else {
+                seenBuckets.add(bucket);
+            }
+        }
+        // Never remove the most recent edit, so thinning never changes the
+        // most recent version
+        thinned.delete(filepaths[0]);
+        if (thinned.size == 0) {
+            return [];
+        }
+        await this.removeEdits(Array.from(thinned), keyframeInterval);
+
+        return Array.from(thinned);
+    }
+
+    /**
+     * Remove the given edits, the versions of the remaining edits are
+     * unchanged.
+     *
+     * The edit older than each run of removed edits is re-patched against the
+     * edit newer than the run, or stored in full if there's no newer edit
+     * left. Removing a run of edits except the newest one squashes the run
+     * into that edit.
+     *
+     * @param keyframeInterval see appendEdit
+     */
+    async removeEdits(editFilenames: string[], keyframeInterval = Infinity) {
+        const filepaths = this.listEdits();
+        const removed = new Set<string>(editFilenames);
+
+        // Find the kept edits right after a run of removed ones, those need
+        // to be re-patched against the kept edit right before the run. Since
+        // removed edits may have been keyframes, also store in full the kept
+        // edits that would otherwise be keyframeInterval consecutive patches
+        // away from the nearest newer keyframe, same as appendEdit
+        const repatches = new Map<string, { newerFilepath: string|null, isKeyframe: boolean }>();
+        let newerFilepath: string|null = null;
+        let numPatches = 0;
+        for (let i = 0; i < filepaths.length; ++i) {
+            const filepath = filepaths[i];
+            if (removed.has(filepath)) {
+                continue;
+            }
+            if (!getEditIsDiff(filepath)) {
+                numPatches = 0;
+            } else if ((newerFilepath == null) || (numPatches + 1 >= keyframeInterval)) {
+                // The most recent edit must always be stored in full
+                repatches.set(filepath, { newerFilepath: newerFilepath, isKeyframe: true });
+                numPatches = 0;
+            } else {
+                if (filepaths[i-1] != newerFilepath) {
+                    repatches.set(filepath, { newerFilepath: newerFilepath, isKeyframe: false });
+                }
+                numPatches++;
+            }
+            newerFilepath = filepath;
+        }
+
+        // Rebuild the versions needed for re-patching before modifying the
+        // zip file, edits stored in full (eg binary) never need re-patching
+        const versions = new Map<string, string>();
+        const neededVersions = new Set<string>();
+        repatches.forEach((repatch, filepath) => {
+            neededVersions.add(filepath);
+            if (!repatch.isKeyframe) {
+                neededVersions.add(repatch.newerFilepath as string);
+            }
+        });
+        if (neededVersions.size > 0) {
+            await this.forEachVersion((filepath: string, data: string) => {
+                if (neededVersions.has(filepath)) {
+                    versions.set(filepath, data);
+                }
+                return (versions.size == neededVersions.size);
+            });
+        }
+
+        for (const filepath of removed) {
+            logInfo("Removing entry", filepath);
+            this.zip.remove(filepath);
+            // Keep the size roughly up to date so purging doesn't remove
+            // more edits than necessary, it will be exact on the next
+            // generate
+            this.size -= this.getEditCompressedSize(filepath);
+        }
+        repatches.forEach((repatch, filepath) => {
+            const data = versions.get(filepath) as string;
+            const file = this.zip.file(filepath);
+            let patch = data;
+            let isDiff = false;
+            if (!repatch.isKeyframe) {
+                const newerData = versions.get(repatch.newerFilepath as string) as string;
+                // @ts-ignore: complains about missing opt_c, see appendEdit
+                patch = this.dmpobj.patch_toText(this.dmpobj.patch_make(newerData, data));
+                // Same as appendEdit, store in full if the diff is larger
+                isDiff = (patch.length < data.length);
+                if (!isDiff) {
+                    patch = data;
+                }
+            }
+            const newFilename = buildEditFilename(getEditEpoch(filepath), isDiff);
+            logInfo("Re-patching entry", filepath, "against", repatch.newerFilepath, "as", newFilename);
+            this.zip.remove(filepath);
+            this.zip.file(newFilename, patch, { date: file.date, compression: "DEFLATE" });
+        });
+    }
+
+    /**
+     * Merge the edits of another edit history file of the same note, eg a
+     * conflicting copy created by a sync tool.
+     *
+     * The common ancestor of both files is the most recent version of one of
+     * them that is also a version of the other, matched by content. If one
+     * file has no versions after the common ancestor, its history is a prefix
+     * of the other's and the merged history is the other's, plus the edits of
+     * the first one older than the other's oldest edit (eg purged on the other
+     * device). Otherwise the history of the note diverged on different
+     * devices and merging would drop the changes of one of them, the file is
+     * left untouched and the caller needs to keep the other file as a separate
+     * branch.
+     *
+     * @return true if the edits could be linearized and all the edits of the
+     *         other file were merged
+     */
+    async merge(other: EditHistoryFile, keyframeInterval = Infinity): Promise<boolean> {
+        const thisVersions = await this.getVersionHashes();
+        const otherVersions = await other.getVersionHashes();
+        const isThisAhead = thisVersions.hashes.has(otherVersions.newest);
+        const isOtherAhead = otherVersions.hashes.has(thisVersions.newest);
+        logInfo("Merging edits, this ahead", isThisAhead, "other ahead", isOtherAhead);
+        if (!isThisAhead && !isOtherAhead) {
+            return false;
+        }
+
+        // Keep the edits of the file ahead, and add the older edits of the
+        // file behind
+        let behind = other;
+        if (!isThisAhead) {
+            behind = new EditHistoryFile(this.dmpobj);
+            await behind.load(await this.generate());
+            this.zip = new JSZip();
+            await this.load(await other.generate());
+        }
+        const edits = this.listEdits();
+        if (edits.length == 0) {
+            return true;
+        }
+        await this.prependEdits(behind, getEditEpoch(edits[edits.length - 1]), keyframeInterval);
+
+        return true;
+    }
+
+    /**
+     * @return the hashes of all the versions, and the hash of the most recent
+     *         version ("" if there are no edits)
+     */
+    async getVersionHashes(): Promise<{ hashes: Set<string>, newest: string }> {
+        const hashes = new Set<string>();
+        let newest: string|null = null;
+        const encoder = new TextEncoder();
+        await this.forEachVersionData(async (editFilename: string, data: string|ArrayBuffer) => {
+            // Binary edits already have the hash, don't hash them again
+            const hash = (typeof data == "string") ? 
+                await computeHash(encoder.encode(data).buffer) : this.getEditHash(editFilename);
+            newest = newest ?? hash;
+            hashes.add(hash);
+        });
+        return { hashes: hashes, newest: newest ?? "" };
+    }
+
+    /**
+     * Add the edits of the other edit history file older than the given epoch
+     * as the oldest edits of this file, with their labels and metadata.
+     *
+     * The versions of the other file are rebuilt one at a time and patched
+     * against the next newer one, so only two versions are kept in memory.
+     */
+    async prependEdits(other: EditHistoryFile, epoch: number, keyframeInterval = Infinity) {
+        const edits = this.listEdits();
+        const oldestEdit = edits[edits.length - 1];
+        // Version of the next newer edit
+        const isBinary = (this.getEditHash(oldestEdit) != "");
+        let newerData: string|ArrayBuffer = isBinary ? 
+            await this.getEditBinaryData(oldestEdit) : 
+            await this.getVersion(oldestEdit) as string;
+        let newerHash = this.getEditHash(oldestEdit);
+        // Patches to apply from the nearest newer keyframe, same as appendEdit
+        let numPatches = 0;
+        for (let i = edits.length - 1; (i >= 0) && getEditIsDiff(edits[i]); --i) {
+            numPatches++;
+        }
+        const dateOffsetMs = new Date().getTimezoneOffset() * 60000;
+
+        await other.forEachVersionData(async (editFilename: string, data: string|ArrayBuffer) => {
+            const editEpoch = getEditEpoch(editFilename);
+            if (editEpoch >= epoch) {
+                return;
+            }
+            let newFilename;
+            // See appendEdit for the date offset and compression
+            const options: JSZip.JSZipFileOptions = { date: new Date(editEpoch - dateOffsetMs) };
+            if (typeof data != "string") {
+                // Binary edits are always stored in full
+                const hash = other.getEditHash(editFilename);
+                if (hash == newerHash) {
+                    return;
+                }
+                newFilename = buildEditFilename(editEpoch, false);
+                this.zip.file(newFilename, data, { ...options, compression: "STORE", comment: hash });
+                newerHash = hash;
+            } else {
+                if (data == newerData) {
+                    return;
+                }
+                // @ts-ignore: complains about missing opt_c, but passing only
+                // two arguments is actually allowed by the diff-match-patch API
+                const patch = this.dmpobj.patch_toText(this.dmpobj.patch_make(newerData as string, data));
+                if ((numPatches + 1 >= keyframeInterval) || (patch.length >= data.length)) {
+                    newFilename = buildEditFilename(editEpoch, false);
+                    this.zip.file(newFilename, data, { ...options, compression: "DEFLATE" });
+                    numPatches = 0;
+                } else {
+                    newFilename = buildEditFilename(editEpoch, true);
+                    this.zip.file(newFilename, patch, { ...options, compression: "DEFLATE" });
+                    numPatches++;
+                }
+            }
+            newerData = data;
+            const label = other.getEditLabel(editFilename);
+            if (label != null) {
+                this.setEditLabel(newFilename, label);
+            }
+            const metadata = other.getEditMetadata(editFilename);
+            if (metadata != null) {
+                this.metadata.set(getEditKey(newFilename), metadata);
+            }
+        });
+    }
+
+    /**
+     * Add a new edit with the given note contents, replacing the previously
+     * most recent edit with the patch from the new edit.
+     *
+     * Binary contents (ArrayBuffer) are always stored in full since
+     * diff-match-patch only works on text and binary diffs are meaningless
+     * anyway.
+     *
+     * @param mtime UTC epoch in milliseconds of the edit
+     * @param keyframeInterval keep the previously most recent edit in full if
+     *        this many edits would otherwise be stored as consecutive patches
+     * @param device device the edit is stored on, for the edit metadata
+     * @return false if the edit was not added because there were no changes
+     */
+    async appendEdit(fileData: string|ArrayBuffer, mtime: number, keyframeInterval = Infinity, device = ""): Promise<boolean> {
+        // Ideally, in order to minimize history file size, the history file
+        // would store only diffs and then, at modify time:
+        // 1. recreate the currently stored version applying the last stored
+        //    diff to the pre-modified file
+        // 2. compute the diff between the pre-modified file and the
+        //    modified file
+        // 3. store that diff
+        //
+        // Unfortunately there's no way to get the pre-modified version here
+        // since when the callback is called, the file has already been
+        // modified, so only the modified version is available. The solution
+        // is to always store the last modified version in full and then
+        // when a new modification is done, replace that version with the
+        // diff and store the full version, rinse repeat.
+        //
+        // Storing the latest version in full in the history file has
+        // benefits, though:
+        // - The history file can act as a backup even if the main file is
+        //   deleted
+        // - The history file is still valid even if the original file is
+        //   modified from outside Obsidian
+
+        // XXX Another option that would likely make the Edit History File
+        //     smaller is to do the diffs backwards and store the first
+        //     version fully and build diffs on top of that first version.
+        //     That would make saving slower, though, since it will have to
+        //     rebuild the history from the start on every save, or cache
+        //     that the first time. Would also make trimming the history
+        //     file slightly harder (needs to rebuild the version that will
+        //     now become the first version when older versions are removed
+        //     from the file).
+        let newFilename = buildEditFilename(mtime, false);
+        const filepaths = this.listEdits();
+        // Binary edits store the hash of the contents as the entry comment,
+        // so identical contents can be detected without decompressing the
+        // most recent edit
+        const hash = (typeof fileData == "string") ? undefined : await computeHash(fileData);
+        const metadata: EditMetadata = {
+            size: (typeof fileData == "string") ? fileData.length : fileData.byteLength,
+            // With no previous edit, everything was added
+            added: (typeof fileData == "string") ? fileData.length : 0,
+            removed: 0,
+            device: device,
+        };
+        if (filepaths.length > 0) {
+            // Diff the latest stored edit against the incoming file data, if
+            // there are no stored edits, continue to store the incoming one
+            // fully
+
+            // Note it needs to store the incoming file in full and not the
+            // diff because otherwise there's no way to reconstruct the
+            // previous version to diff against (Obsidian calls "modify" after
+            // the file has been written)
+
+            let mostRecentFilename = filepaths[0];
+            const mostRecentFile = this.zip.file(mostRecentFilename);
+
+            const mostRecentEpoch = getEditEpoch(mostRecentFilename);
+            if (mostRecentEpoch >= mtime) {
+                // Don't allow edits at the same epoch since they would get the
+                // same filename and overwrite the previous version, corrupting
+                // the history. Edits less than one millisecond apart (eg
+                // scripted edits) or with a modification time older than the
+                // most recent edit (eg modification time changed outside of
+                // Obsidian) are stored one millisecond after the most recent
+                // edit so they are never dropped and always sort as the most
+                // recent
+                logInfo("Colliding epochs", mostRecentEpoch, ">=", mtime, "storing one ms after the most recent edit");
+                mtime = mostRecentEpoch + 1;
+                newFilename = buildEditFilename(mtime, false);
+            }
+
+            if (typeof fileData != "string") {
+                // Binary edits are never diffed, the most recent edit is kept
+                // in full. Only the most recent edit is checked, reverting to
+                // an older version (A -> B -> A) stores that version in full
+                // again
+                // XXX Store a reference to the older entry with the same hash
+                //     instead? thinning and removing edits would then need to
+                //     keep referenced entries
+                if (this.getEditHash(mostRecentFilename) == hash) {
+                    logInfo("No changes detected, ignoring");
+                    return false;
+                }
+            } else {
+                logInfo("unpacking " + mostRecentFilename);
+                const prevFileData = await mostRecentFile.async("string");
+                // @ts-ignore: complains about missing opt_c, but passing only two
+                // arguments is actually allowed by the diff-match-patch API
+                const diffs = this.dmpobj.patch_make(fileData, prevFileData.toString());
+                if (diffs.length == 0) {
+                    logInfo("No changes detected, ignoring");
+                    return false;
+                }
+                const patch = this.dmpobj.patch_toText(diffs);
+                // The patch goes from the new version to the previous one, so
+                // its deletions are the characters added by the new version
+                // and vice versa. Note DiffOp can't be imported here, see
+                // main.ts
+                metadata.added = 0;
+                for (const diff of diffs) {
+                    for (const [op, text] of diff.diffs) {
+                        if (op == -1) {
+                            metadata.added += text.length;
+                        } else if (op == 1) {
+                            metadata.removed += text.length;
+                        }
+                    }
+                }
+
+                // XXX Don't save the version if it has less than a given size in
+                //     bytes? (but it has already done the work and the savings
+                //     because of merging updates may not be that big, although at
+                //     the very least it shouldn't save versions where most of it
+                //     are control chars?)
+
+                // Edits older than the previously most recent edit are
+                // rebuilt from the nearest newer edit stored in full, keep the
+                // previously most recent edit in full if there are already
+                // enough patches to apply after it
+                let numPatches = 1;
+                while ((numPatches < filepaths.length) && getEditIsDiff(filepaths[numPatches])) {
+                    numPatches++;
+                }
+                const isKeyframe = (numPatches >= keyframeInterval);
+
+                // Don't bother replacing with the diffed version if the diff is
+                // larger than the original
+                if (isKeyframe) {
+                    logInfo("Keeping", mostRecentFilename, "as keyframe after", numPatches - 1, "patches");
+                } else if (patch.length < prevFileData.length) {
+                    // Replace the previous version with a diff wrt the newest
+                    // version
+                    logInfo("Removing ", mostRecentFilename);
+                    this.zip.remove(mostRecentFilename);
+                    // Store as a diff
+                    mostRecentFilename = buildEditFilename(getEditEpoch(mostRecentFilename), true);
+                    logInfo("Storing ", mostRecentFilename, " with date ",
+                        mostRecentFile.date, " timestamp ", mostRecentFile.extendedTimestamp);
+                    // XXX Investigate why there's no need to undo the UTC offset
+                    //     here:
+                    //     - Javascript UTC dates are stored as is in the zip
+                    //       object metadata
+                    //     - To prevent bad dates
+                    //
+                    this.zip.file(mostRecentFilename, patch,
+                        { date: mostRecentFile.date, compression:"DEFLATE" });
+                }
+            }
+        }
+
+        // Store the newest version in full
+
+        // jszip stores dates in UTC but the zip standard and zip tools expect
+        // the date in local times (DOS times). Also, note that dates in zip are
+        // only accurate to even seconds because DOS times only use 16 bytes,
+        // which can only fit 5 bits for seconds.
+
+        // If we want tools (explorer, total commander...) to display the right
+        // date, we could store the local date by providing jszip with the UTC
+        // offset undone:
+        //     dateWithOffset = new Date(new Date().getTime() - new Date().getTimezoneOffset() * 60000);
+        // But it has limited use since those tools won't show the right date
+        // across timezones or DST changes, eg a file in a zip saved before DST
+        // with time 10.30 will be displayed with time 9.30 after DST.
+
+        // see https://github.com/Stuk/jszip/issues/369
+        // see https://github.com/Stuk/jszip/blob/master/lib/reader/DataReader.js#L113
+        // see https://opensource.apple.com/source/zip/zip-6/unzip/unzip/proginfo/extra.fld
+        // see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+        const dateWithOffset = new Date(mtime - new Date().getTimezoneOffset() * 60000);
+        logInfo("Storing", newFilename, " with date", dateWithOffset);
+        // Binary formats that are worth keeping history of (images, audio,
+        // pdf...) are normally already compressed, don't waste time deflating
+        // them
+        this.zip.file(newFilename, fileData, { 
+            date: dateWithOffset, 
+            compression: (hash === undefined) ? "DEFLATE" : "STORE",
+            comment: hash
+        });
+        this.metadata.set(getEditKey(newFilename), metadata);
+
+        return true;
+    }
+}
+
+/**
+ * Commit of a GitFastImportWriter, the blob with the version is written
+ * before the commit
+ */
+interface GitFastImportCommit {
+    epoch: number;
+    filepath: string;
+    // Mark of the blob with the version of the note at this edit
+    mark: number;
+    label: EditLabel|null;
+    metadata: EditMetadata|null;
+}
+
+/**
+ * Writer of edit history files as a git fast-import stream where every edit
+ * is a commit with the date of the edit, see
+ * https://git-scm.com/docs/git-fast-import
+ *
+ * The versions are written as blobs when each edit history file is added, and
+ * the commits when finishing, sorted by date across all the notes, so only the
+ * commit information needs to be kept in memory.
+ */
+export class GitFastImportWriter {
+    write: (data: Uint8Array) => Promise<void>;
+    branch: string;
+    numMarks = 0;
+    commits: GitFastImportCommit[] = [];
+    encoder: TextEncoder = new TextEncoder();
+
+    /**
+     * @param write called with each chunk of the stream, in order
+     * @param branch name of the branch the commits are written to
+     */
+    constructor(write: (data: Uint8Array) => Promise<void>, branch = "main") {
+        this.write = write;
+        this.branch = branch;
+    }
+
+    async writeText(text: string) {
+        await this.write(this.encoder.encode(text));
+    }
+
+    async writeData(data: Uint8Array) {
+        await this.writeText(`data ${data.byteLength}\n`);
+        await this.write(data);
+        await this.writeText("\n");
+    }
+
+    /**
+     * Write the versions of all the edits of the edit history file of the
+     * given note
+     */
+    async addEditHistory(filepath: string, editHistoryFile: EditHistoryFile) {
+        await editHistoryFile.forEachVersionData(async (editFilename: string, data: string|ArrayBuffer) => {
+            const mark = ++this.numMarks;
+            await this.writeText(`blob\nmark :${mark}\n`);
+            await this.writeData((typeof data === "string") ? this.encoder.encode(data) : new Uint8Array(data));
+            this.commits.push({
+                epoch: getEditEpoch(editFilename),
+                filepath: filepath,
+                mark: mark,
+                label: editHistoryFile.getEditLabel(editFilename),
+                metadata: editHistoryFile.getEditMetadata(editFilename),
+            });
+        });
+    }
+
+    /**
+     * Write the commits of all the edits added, oldest first
+     */
+    async finish() {
+        // Edits of different notes at the same time are sorted by filepath so
+        // the output is stable
+        this.commits.sort((a: GitFastImportCommit, b: GitFastImportCommit) => 
+            (a.epoch - b.epoch) || ((a.filepath < b.filepath) ? -1 : (a.filepath > b.filepath) ? 1 : 0));
+        for (const commit of this.commits) {
+            // Use the device the edit was stored on as author, there's no
+            // other user information
+            // XXX Have a setting for the author name and email?
+            const author = commit.metadata?.device || "Edit History";
+            const ident = `${author.replace(/[<>\n]/g, "")} <> ${Math.floor(commit.epoch / 1000)} +0000`;
+            // Use the label and message as commit message, if any
+            const message = [commit.label?.label || "", commit.label?.message || ""]
+                .filter((s: string) => s != "").join("\n\n") || ("Edit " + commit.filepath);
+            // Paths starting with a quote or containing newlines need to be
+            // quoted C-style, which JSON quoting is for those characters
+            const path = /^"|\n/.test(commit.filepath) ? JSON.stringify(commit.filepath) : commit.filepath;
+
+            await this.writeText(`commit refs/heads/${this.branch}\nauthor ${ident}\ncommitter ${ident}\n`);
+            await this.writeData(this.encoder.encode(message + "\n"));
+            await this.writeText(`M 100644 :${commit.mark} ${path}\n\n`);
+        }
+    }
+}
+
+/**
+ * Storage of edit history files.
+ *
+ * Subclasses implement the raw access to the edit history file contents, eg
+ * in the Obsidian vault or in memory. Edit history filepaths are opaque to the
+ * storage, the caller decides where the edit history file of each note goes.
+ */
+export abstract class EditHistoryStorage {
+    dmpobj: DiffMatchPatch;
+    // Version of the plugin or tool writing the edit history files, and device
+    // it runs on, stored in the edit history file manifest
+    pluginVersion = "";
+    device = "";
+
+    constructor(dmpobj: DiffMatchPatch) {
+        this.dmpobj = dmpobj;
+    }
+
+    /**
+     * @return the contents of the edit history file, null if it doesn't exist
+     */
+    abstract readHistoryFile(historyFilepath: string): Promise<ArrayBuffer|null>;
+    /**
+     * Create or overwrite the edit history file
+     */
+    abstract writeHistoryFile(historyFilepath: string, data: ArrayBuffer): Promise<void>;
+    abstract renameHistoryFile(historyFilepath: string, newHistoryFilepath: string): Promise<void>;
+    abstract deleteHistoryFile(historyFilepath: string): Promise<void>;
+    /**
+     * Move the edit history file to the trash, falling back to deleting it if
+     * the storage has no trash
+     *
+     * @param system try the system trash first, otherwise use the storage
+     *        trash
+     */
+    abstract trashHistoryFile(historyFilepath: string, system: boolean): Promise<void>;
+    abstract existsHistoryFile(historyFilepath: string): Promise<boolean>;
+    /**
+     * @return the filepaths of all the edit history files in the storage
+     */
+    abstract listHistoryFiles(): Promise<string[]>;
+
+    /**
+     * @return the edit history file, null if it doesn't exist
+     */
+    async open(historyFilepath: string): Promise<EditHistoryFile|null> {
+        logInfo("Opening edit history file", historyFilepath);
+        const data = await this.readHistoryFile(historyFilepath);
+        if (data == null) {
+            return null;
+        }
+        const editHistoryFile = new EditHistoryFile(this.dmpobj);
+        await editHistoryFile.load(data);
+        return editHistoryFile;
+    }
+
+    async save(historyFilepath: string, editHistoryFile: EditHistoryFile) {
+        logInfo("Saving edit history file", historyFilepath);
+        editHistoryFile.pluginVersion = this.pluginVersion;
+        const data = await editHistoryFile.generate();
+        await this.writeHistoryFile(historyFilepath, data);
+    }
+
+    /**
+     * Add a new edit to the edit history file, creating it if it doesn't
+     * exist and purging edits over the limits
+     *
+     * @return the number of edits in the edit history file, or null if the
+     *         edit was not stored
+     */
+    async storeEdit(historyFilepath: string, fileData: string|ArrayBuffer, mtime: number, limits: EditHistoryLimits, nowMs: number = Date.now()): Promise<number|null> {
+        const editHistoryFile = await this.open(historyFilepath) || new EditHistoryFile(this.dmpobj);
+        // Thin and purge before appending, note there's a new edit incoming
+        if (limits.thinEdits) {
+            await editHistoryFile.thin(nowMs, limits.keyframeInterval);
+        }
+        editHistoryFile.purge(limits, nowMs, 1);
+        if (!await editHistoryFile.appendEdit(fileData, mtime, limits.keyframeInterval, this.device)) {
+            return null;
+        }
+        await this.save(historyFilepath, editHistoryFile);
+
+        return editHistoryFile.listEdits().length;
+    }
+
+    /**
+     * Remove the given edits from the edit history file as currently stored,
+     * deleting the edit history file if no edits remain
+     *
+     * Edits are matched by epoch since edits stored after the given edits
+     * were listed may have renamed them, eg the most recent edit is renamed
+     * from full to diff when a newer edit is appended
+     *
+     * @return the number of remaining edits
+     */
+    async removeEdits(historyFilepath: string, editFilenames: string[], keyframeInterval = Infinity): Promise<number> {
+        const editHistoryFile = await this.open(historyFilepath);
+        if (editHistoryFile == null) {
+            logWarn("No edit history file to remove edits from", historyFilepath);
+            return 0;
+        }
+        const removedKeys = new Set(editFilenames.map(getEditKey));
+        await editHistoryFile.removeEdits(editHistoryFile.listEdits().filter(
+            (editFilename: string) => removedKeys.has(getEditKey(editFilename))
+        ), keyframeInterval);
+        const numEdits = editHistoryFile.listEdits().length;
+        if (numEdits == 0) {
+            await this.deleteHistoryFile(historyFilepath);
+        } else {
+            await this.save(historyFilepath, editHistoryFile);
+        }
+
+        return numEdits;
+    }
+}
+
+/**
+ * Edit history storage that keeps edit history files in memory
+ */
+export class MemoryEditHistoryStorage extends EditHistoryStorage {
+    files: Map<string, ArrayBuffer> = new Map();
+
+    async readHistoryFile(historyFilepath: string): Promise<ArrayBuffer|null> {
+        return this.files.get(historyFilepath) || null;
+    }
+
+    async writeHistoryFile(historyFilepath: string, data: ArrayBuffer) {
+        this.files.set(historyFilepath, data);
+    }
+
+    async renameHistoryFile(historyFilepath: string, newHistoryFilepath: string) {
+        const data = this.files.get(historyFilepath);
+        if (data === undefined) {
+            logDbg("No edit history file to rename", historyFilepath);
+            return;
+        }
+        this.files.delete(historyFilepath);
+        this.files.set(newHistoryFilepath, data);
+    }
+
+    async deleteHistoryFile(historyFilepath: string) {
+        this.files.delete(historyFilepath);
+    }
+
+    async trashHistoryFile(historyFilepath: string, system: boolean) {
+        // There's no trash in memory
+        this.files.delete(historyFilepath);
+    }
+
+    async existsHistoryFile(historyFilepath: string): Promise<boolean> {
+        return this.files.has(historyFilepath);
+    }
+
+    async listHistoryFiles(): Promise<string[]> {
+        return Array.from(this.files.keys());
+    }
+}
@@ -0,0 +1,32 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// Bundle the tests with esbuild, since Node can't run TypeScript, into a
+// temporary folder and run them with the Node test runner
+
+const testFilepaths = fs.readdirSync("tests")
+    .filter((filename) => filename.endsWith(".test.ts"))
+    .map((filename) => path.join("tests", filename));
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "edit-history-tests-"));
+
+try {
+    await esbuild.build({
+        entryPoints: testFilepaths,
+        bundle: true,
+        platform: "node",
+        format: "cjs",
+        target: "node16",
+        logLevel: "warning",
+        outdir: outdir,
+    });
+    const outFilepaths = testFilepaths.map((filepath) => 
+        path.join(outdir, path.basename(filepath, ".ts") + ".js"));
+    const result = spawnSync(process.execPath, ["--test", ...outFilepaths], { stdio: "inherit" });
+    process.exitCode = result.status ?? 1;
+} finally {
+    fs.rmSync(outdir, { recursive: true, force: true });
+}
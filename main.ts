@@ -1,19 +1,34 @@
 import { 
     App, 
     ButtonComponent, 
+    Component,
+    DataAdapter,
     DropdownComponent,
+    editorInfoField,
+    FileManager,
+    FuzzySuggestModal,
+    FileView,
+    ItemView,
+    MarkdownRenderer,
     Modal, 
     normalizePath, 
     Notice,
+    Platform,
     Plugin, 
     PluginSettingTab, 
     setIcon,
     Setting, 
+    setTooltip,
     TAbstractFile, 
     TFile, 
     TFolder, 
-    ToggleComponent
+    TextComponent,
+    ToggleComponent,
+    Vault,
+    WorkspaceLeaf
 } from "obsidian";
+import { ChangeSet, Extension, RangeSet, RangeSetBuilder, StateEffect, StateField } from "@codemirror/state";
+import { EditorView, gutter, GutterMarker, ViewUpdate, ViewPlugin } from "@codemirror/view";
 import { DiffMatchPatch, Diff } from "diff-match-patch-ts";
 // diff-match-patch-ts doesn't export properly module enums, it uses a const
 // enum (instead of a non const enum) which is removed at compile time and not
@@ -30,42 +45,27 @@ const enum DiffOp {
     Insert = 1
 }
 
-// @ts-ignore: Complains about default export this way, but since jszip 3.10
-// this is the recommended way
-import JSZip from "jszip";
-
-
-// Debuglevels in increasing severity so messages >= indexOf(debugLevel) will be
-// shown
-const debugLevels = ["debug", "info", "warn", "error"];
-
-let logError = function(message?: any, ...optionalParams: any[]) {};
-let logWarn = function(message?: any, ...optionalParams: any[]) {};
-// Note console.log is an alias of console.info
-let logInfo = function(message?: any, ...optionalParams: any[]) {};
-let logDbg = function(message?: any, ...optionalParams: any[]) {};
-
-function hookLogFunctions(debugLevelIndex: number, tag: string) {
-    logInfo("hookLogFunctions", debugLevelIndex, tag);
-
-    const logIgnore = function(message?: any, ...optionalParams: any[]) {};
-    logError = (debugLevelIndex <= debugLevels.indexOf("error")) ? 
-        console.error.bind(console, tag + "[ERROR]:") :
-        logIgnore;
-    logWarn = (debugLevelIndex <= debugLevels.indexOf("warn")) ?
-        console.warn.bind(console, tag + "[WARN]:") :
-        logIgnore;
-    logInfo = (debugLevelIndex <= debugLevels.indexOf("info")) ?
-        console.info.bind(console, tag + "[INFO]:") :
-        logIgnore;
-    logDbg = (debugLevelIndex <= debugLevels.indexOf("debug")) ?
-        console.debug.bind(console, tag + "[DEBUG]:") :
-        logIgnore;
-}
-
-function debugbreak() {
-    debugger;
-}
+import { 
+    debugLevels, 
+    hookLogFunctions, 
+    logDbg, 
+    logError, 
+    logInfo, 
+    logWarn 
+} from "./log";
+import { 
+    computeHash,
+    EDIT_HISTORY_FILE_EXT,
+    EditHistoryFile,
+    EditHistoryLimits,
+    EditHistoryStorage,
+    EditLabel,
+    getEditDate,
+    getEditEpoch,
+    getEditFileTime,
+    getEditLocalDateStr,
+    GitFastImportWriter
+} from "./edithistoryfile";
 
  const htmlChars :  { [key: string]: string } = {
     "&" : "&amp;",
@@ -85,6 +85,37 @@ function debugbreak() {
  };
  const htmlWhitespaceCharsRegexp = new RegExp(Object.keys(htmlWhitespaceChars).join("|"), "g");
 
+/**
+ * @return the text as displayed by the browser of the given html encoded
+ *         string
+ */
+function htmlDecode(str: string): string {
+    const doc = new DOMParser().parseFromString(str.replace(/\n/g, ""), "text/html");
+    return doc.documentElement.textContent as string;
+}
+
+/**
+ * Collapse the lines of the html encoded string but the given number of lines
+ * at the start and at the end, adding a marker to expand them. 
+ * 
+ * @param foldId identifier of the collapsed lines, markers and collapsed lines
+ *        with the same identifier are expanded together
+ * @return the html with the lines collapsed, the same html if there are not
+ *         enough lines to collapse
+ */
+function foldLines(hdata: string, headLines: number, tailLines: number, foldId: number): string {
+    // Lines including the trailing newline, the last line may have none
+    const lines = hdata.match(/[^\n]*\n|[^\n]+$/g);
+    if ((lines == null) || (headLines + tailLines >= lines.length)) {
+        return hdata;
+    }
+    const numHidden = lines.length - headLines - tailLines;
+    return lines.slice(0, headLines).join("") + 
+        `<div class="clickable diff-fold-marker" data-fold="${foldId}">show ${numHidden} hidden line${(numHidden != 1) ? "s" : ""}</div>` + 
+        `<span class="diff-fold" data-fold="${foldId}">${lines.slice(headLines, headLines + numHidden).join("")}</span>` +
+        lines.slice(headLines + numHidden).join("");
+}
+
 function htmlEncode(str: string, whitespace: boolean): string {
     // XXX or use document.createTextNode(str).textContent?
     // This can be a performance hotspot, so use an efficient way of replacing
@@ -94,12 +125,250 @@ function htmlEncode(str: string, whitespace: boolean): string {
         : str.replace(htmlCharsRegexp, c => htmlChars[c]);
 }
 
+// Tokens for word granularity: words, whitespace, or any other single character
+const WORD_TOKEN_REGEXP = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+const LINE_TOKEN_REGEXP = /[^\n]*\n|[^\n]+$/g;
+const MARKDOWN_CHARS_REGEXP = /[*_~=`]+/g;
+const MARKDOWN_LINE_PREFIX_REGEXP = /^\s*(#{1,6}\s+|>\s*)+/;
+
+/**
+ * Split the text into the units to diff with the given options.
+ * 
+ * Each unit has the key to compare with the units of the other text, and the
+ * text to display. Tokens whose key is empty (eg formatting when ignoring
+ * Markdown) are not compared but appended to the text of the previous unit so
+ * they are still displayed.
+ */
+function tokenizeDiffText(text: string, options: DiffOptions): { key: string, text: string }[] {
+    let tokens: string[];
+    switch (options.granularity) {
+        case DiffGranularity.Line:
+            tokens = text.match(LINE_TOKEN_REGEXP) || [];
+        break;
+        case DiffGranularity.Word:
+            tokens = text.match(WORD_TOKEN_REGEXP) || [];
+        break;
+        default:
+            // Whitespace runs need to be a single token so changes in the
+            // amount of whitespace can be ignored
+            tokens = (options.ignoreWhitespace ? text.match(/\s+|[^]/g) : text.match(/[^]/g)) || [];
+        break;
+    }
+    const units: { key: string, text: string }[] = [];
+    for (const token of tokens) {
+        let key = token;
+        if (options.ignoreMarkdown) {
+            if (options.granularity == DiffGranularity.Line) {
+                key = key.replace(MARKDOWN_LINE_PREFIX_REGEXP, "");
+            }
+            key = key.replace(MARKDOWN_CHARS_REGEXP, "");
+        }
+        if (options.ignoreWhitespace) {
+            key = (options.granularity == DiffGranularity.Line) ? 
+                key.replace(/\s+/g, " ").trim() : key.replace(/^\s+$/, " ");
+        }
+        if (options.ignoreCase) {
+            key = key.toLowerCase();
+        }
+        if ((key == "") && (token != "") && (units.length > 0) && 
+            // Empty lines are not formatting
+            !((options.granularity == DiffGranularity.Line) && (token.trim() == ""))) {
+            units[units.length - 1].text += token;
+        } else {
+            units.push({ key: key, text: token });
+        }
+    }
+    return units;
+}
+
+/**
+ * @return the diffs to go from text1 to text2 with the given options.
+ * 
+ * Character granularity without ignore options is the plain character diff,
+ * otherwise the texts are split into units which are diffed. Unchanged text
+ * is displayed as in text2.
+ */
+function computeDiffs(dmpobj: DiffMatchPatch, text1: string, text2: string, options: DiffOptions): Diff[] {
+    if ((options.granularity == DiffGranularity.Char) && 
+        !options.ignoreWhitespace && !options.ignoreCase && !options.ignoreMarkdown) {
+        const diffs = dmpobj.diff_main(text1, text2);
+        dmpobj.diff_cleanupSemantic(diffs);
+        return diffs;
+    }
+    // Semantic cleanup removes short unchanged runs between changes, which
+    // is good for the spaces between changed words but merges changed lines
+    // separated by unchanged lines
+    return diffUnits(dmpobj, tokenizeDiffText(text1, options), tokenizeDiffText(text2, options), 
+        options.granularity != DiffGranularity.Line);
+}
+
+/**
+ * @return the diffs to go from the units of one text to the units of another,
+ *         encoding each distinct unit as a character so they can be diffed by
+ *         diff-match-patch, the same way diff-match-patch does with lines in
+ *         diff_lineMode. Unchanged units are displayed as in units2.
+ */
+function diffUnits(dmpobj: DiffMatchPatch, units1: { key: string, text: string }[], units2: { key: string, text: string }[], cleanupSemantic: boolean): Diff[] {
+    const keyToChar: Map<string, string> = new Map();
+    const encode = (units: { key: string, text: string }[]): string => {
+        let chars = "";
+        for (const unit of units) {
+            let c = keyToChar.get(unit.key);
+            if (c === undefined) {
+                // Start at 1 to avoid the null character, and like
+                // diff_lineMode don't go over the Basic Multilingual Plane,
+                // the characters above are surrogate pairs. Over the limit
+                // reuse the last character, which makes those units compare
+                // as equal
+                // XXX This can only happen with tens of thousands of distinct
+                //     words or lines, unlikely for notes
+                c = String.fromCharCode(Math.min(keyToChar.size + 1, 0xffff));
+                keyToChar.set(unit.key, c);
+            }
+            chars += c;
+        }
+        return chars;
+    };
+    const encodedDiffs = dmpobj.diff_main(encode(units1), encode(units2), false);
+    if (cleanupSemantic) {
+        dmpobj.diff_cleanupSemantic(encodedDiffs);
+    }
+
+    // Decode back each character to the text of its unit
+    const diffs: Diff[] = [];
+    let i1 = 0;
+    let i2 = 0;
+    for (const [op, chars] of encodedDiffs) {
+        const n = chars.length;
+        let data;
+        switch (op as number) {
+            case DiffOp.Delete:
+                data = units1.slice(i1, i1 + n);
+                i1 += n;
+            break;
+            case DiffOp.Insert:
+                data = units2.slice(i2, i2 + n);
+                i2 += n;
+            break;
+            default:
+                data = units2.slice(i2, i2 + n);
+                i1 += n;
+                i2 += n;
+            break;
+        }
+        diffs.push([op, data.map((unit) => unit.text).join("")]);
+    }
+    return diffs;
+}
+
+/**
+ * @return the diffs to go from text1 to text2 by Markdown blocks (paragraphs,
+ *         lists, tables, code blocks...) so they can be rendered
+ */
+function diffMarkdownBlocks(dmpobj: DiffMatchPatch, text1: string, text2: string): Diff[] {
+    return diffUnits(dmpobj, splitMarkdownBlocks(text1), splitMarkdownBlocks(text2), false);
+}
+
+/**
+ * @return the Markdown blocks of the text, split at blank lines outside of
+ *         code blocks. The blank lines are part of the previous block.
+ */
+function splitMarkdownBlocks(text: string): { key: string, text: string }[] {
+    const blocks: { key: string, text: string }[] = [];
+    let block = "";
+    let inCodeBlock = false;
+    let prevBlank = false;
+    for (const line of text.match(LINE_TOKEN_REGEXP) || []) {
+        const blank = (line.trim() == "");
+        // Start a new block on the first non blank line after a blank line
+        if (!inCodeBlock && !blank && prevBlank) {
+            blocks.push({ key: block.trim(), text: block });
+            block = "";
+        }
+        if (line.trimStart().startsWith("```")) {
+            inCodeBlock = !inCodeBlock;
+        }
+        block += line;
+        prevBlank = blank;
+    }
+    if (block != "") {
+        blocks.push({ key: block.trim(), text: block });
+    }
+    return blocks;
+}
+
+/**
+ * @param a, b sets of the trimmed non-blank lines of two texts, see getLineSet
+ * @return the similarity between 0 and 1 of the two line sets, as the ratio
+ *         of lines in both sets over the lines in either set
+ */
+function computeLineSimilarity(a: Set<string>, b: Set<string>): number {
+    let common = 0;
+    a.forEach((line: string) => {
+        if (b.has(line)) {
+            common++;
+        }
+    });
+    const total = a.size + b.size - common;
+    return (total == 0) ? 0 : common / total;
+}
+
+function getLineSet(str: string): Set<string> {
+    return new Set(str.split("\n").map((line: string) => line.trim()).filter((line: string) => line != ""));
+}
+
+/**
+ * @return true if the filepath is in the scope: the empty scope is the whole
+ *         vault, a scope ending in "/" is the folder and its subfolders, any
+ *         other scope is a single note
+ */
+function isFilepathInScope(filepath: string, scope: string): boolean {
+    if (scope == "") {
+        return true;
+    }
+    return scope.endsWith("/") ? filepath.startsWith(scope) : (filepath == scope);
+}
+
+/**
+ * @return the text to display for the edit in the drop downs, the timeline and
+ *         the blame gutter, the date plus the label or message if any
+ */
+function getEditStr(editHistory: EditHistoryFile, editFilename: string): string {
+    const label = editHistory.getEditLabel(editFilename);
+    return getEditLocalDateStr(editFilename) + 
+        ((label == null) ? "" : ` [${label.label || label.message.split("\n")[0]}]`);
+}
+
+/**
+ * @return the chunks concatenated in a single buffer
+ */
+function concatChunks(chunks: Uint8Array[]): ArrayBuffer {
+    const data = new Uint8Array(chunks.reduce((size: number, chunk: Uint8Array) => size + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return data.buffer;
+}
+
+function formatSize(bytes: number): string {
+    const units = ["bytes", "KB", "MB", "GB"];
+    let i = 0;
+    while ((bytes >= 1024) && (i < units.length - 1)) {
+        bytes /= 1024;
+        i++;
+    }
+    return ((i == 0) ? bytes.toString() : bytes.toFixed(1)) + " " + units[i];
+}
+
 enum DiffDisplayFormat {
     Raw        = "RAW",
     Timeline   = "TIMELINE",
     Inline     = "INLINE",
     Horizontal = "HORIZONTAL",
     Vertical   = "VERTICAL",
+    Rendered   = "RENDERED",
 };
 
 const diffDisplayFormatToString: Record<DiffDisplayFormat, string> = {
@@ -108,6 +377,68 @@ const diffDisplayFormatToString: Record<DiffDisplayFormat, string> = {
     [DiffDisplayFormat.Inline]     : "inline",
     [DiffDisplayFormat.Horizontal] : "side by side",
     [DiffDisplayFormat.Vertical]   : "top by bottom",
+    [DiffDisplayFormat.Rendered]   : "rendered",
+};
+
+// Unit of the changes computed by the diff
+enum DiffGranularity {
+    Char = "CHAR",
+    Word = "WORD",
+    Line = "LINE",
+}
+
+const diffGranularityToString: Record<DiffGranularity, string> = {
+    [DiffGranularity.Char] : "by character",
+    [DiffGranularity.Word] : "by word",
+    [DiffGranularity.Line] : "by line",
+};
+
+interface DiffOptions {
+    granularity: DiffGranularity;
+    // Ignore changes in the amount of whitespace
+    ignoreWhitespace: boolean;
+    ignoreCase: boolean;
+    // Ignore changes that only add or remove Markdown formatting (emphasis,
+    // strikethrough, highlight, code, and in line granularity, headings and
+    // quotes)
+    ignoreMarkdown: boolean;
+}
+
+// Text of the diff searched by the find in diff box of the edit history modal
+enum DiffSearchScope {
+    All       = "ALL",
+    Inserted  = "INSERTED",
+    Deleted   = "DELETED",
+    Unchanged = "UNCHANGED",
+}
+
+const diffSearchScopeToString: Record<DiffSearchScope, string> = {
+    [DiffSearchScope.All]       : "all text",
+    [DiffSearchScope.Inserted]  : "inserted text",
+    [DiffSearchScope.Deleted]   : "deleted text",
+    [DiffSearchScope.Unchanged] : "unchanged text",
+};
+
+enum EditHistoryTrash {
+    System = "SYSTEM",
+    Local  = "LOCAL",
+    None   = "NONE",
+}
+
+const editHistoryTrashToString: Record<EditHistoryTrash, string> = {
+    [EditHistoryTrash.System] : "Move to system trash",
+    [EditHistoryTrash.Local]  : "Move to Obsidian trash (.trash folder)",
+    [EditHistoryTrash.None]   : "Permanently delete",
+};
+
+enum ExportFormat {
+    GitFastImport    = "GIT_FAST_IMPORT",
+    TimestampedFiles = "TIMESTAMPED_FILES",
+}
+
+const exportFormatToString: Record<ExportFormat, string> = {
+    [ExportFormat.GitFastImport]    : "git fast-import stream",
+    [ExportFormat.TimestampedFiles] : "timestamped files",
 };
 
 interface EditHistorySettings {
@@ -115,12 +446,23 @@ interface EditHistorySettings {
     maxEdits: string;
     maxEditAge: string;
     maxHistoryFileSizeKB: string;
+    keyframeInterval: string;
+    thinEdits: boolean;
+    keepDeletedEditHistory: boolean;
+    maxDeletedEditHistoryDays: string;
+    editHistoryTrash: string;
     editHistoryRootFolder: string;
     extensionWhitelist: string;
     substringBlacklist: string;
     showOnStatusBar: boolean;
     diffDisplayFormat: string;
     showWhitespace: boolean;
+    showBlameGutter: boolean;
+    diffContextLines: string;
+    diffGranularity: string;
+    ignoreWhitespace: boolean;
+    ignoreCase: boolean;
+    ignoreMarkdown: boolean;
     debugLevel: string;
     // XXX Have color setting for addition fore/back, deletion fore/back 
 }
@@ -130,16 +472,73 @@ const DEFAULT_SETTINGS: EditHistorySettings = {
     maxEditAge: "0",
     maxEdits: "0",
     maxHistoryFileSizeKB: "0",
+    keyframeInterval: "50",
+    thinEdits: false,
+    keepDeletedEditHistory: true,
+    maxDeletedEditHistoryDays: "30",
+    editHistoryTrash: EditHistoryTrash.System,
     editHistoryRootFolder: "",
     extensionWhitelist: ".md, .txt, .csv, .htm, .html",
     substringBlacklist: "",
     showOnStatusBar: true,
     diffDisplayFormat: DiffDisplayFormat.Inline,
     showWhitespace: true,
+    showBlameGutter: false,
+    diffContextLines: "3",
+    diffGranularity: DiffGranularity.Char,
+    ignoreWhitespace: false,
+    ignoreCase: false,
+    ignoreMarkdown: false,
     debugLevel: "warn"
 }
 
-const EDIT_HISTORY_FILE_EXT = ".edtz";
+// Extensions of binary files, these are stored in full instead of diffed and
+// displayed as metadata (or images) instead of text diffs in the edit history
+// modal. See https://help.obsidian.md/Files+and+folders/Accepted+file+formats
+const IMAGE_EXTENSIONS = [".avif", ".bmp", ".gif", ".jpeg", ".jpg", ".png", ".webp"];
+const BINARY_EXTENSIONS = [
+    ...IMAGE_EXTENSIONS,
+    ".pdf",
+    ".3gp", ".flac", ".m4a", ".mp3", ".ogg", ".wav", ".webm",
+    ".mkv", ".mov", ".mp4", ".ogv",
+];
+
+// Folder where the edit history files of deleted notes are kept, mirroring
+// the folders of the notes. Starts with "." so it's hidden from the file
+// explorer, and it's separate from the edit history folder so deleted notes'
+// edit history files are never mistaken for existing notes' ones
+const GRAVEYARD_FOLDER = ".edit-history-graveyard";
+
+// Default folder to export edit history files to. Starts with "." so the
+// exported versions are not indexed as notes by Obsidian
+const EXPORT_FOLDER = ".edit-history-export";
+// Size in bytes of the git fast-import stream kept in memory before appending
+// it to the exported file
+const EXPORT_WRITE_SIZE = 1024 * 1024;
+
+const VIEW_TYPE_EDIT_HISTORY = "edit-history";
+const VIEW_TYPE_EDIT_HISTORY_STATS = "edit-history-stats";
+
+// Markers added by sync tools to the name of conflicting copies of a file,
+// before the extension, eg
+// - Syncthing: "note.md.sync-conflict-20240101-120000-ABCDEFG.edtz"
+// - Dropbox, Nextcloud: "note.md (conflicted copy 2024-01-01 120000).edtz"
+const SYNC_CONFLICT_REGEXPS = [
+    /\.(sync-conflict-\d{8}-\d{6}-[A-Z0-9]+)$/,
+    / \(([^()]*conflict[^()]*)\)$/i,
+];
+
+// Characters of context shown around each match in the search results
+const SEARCH_SNIPPET_CONTEXT = 40;
+// Stop searching after this many results, searching a common word over the
+// whole vault would otherwise list every version of every note
+const MAX_SEARCH_RESULTS = 500;
+
+// Special values for the edit to compare against in the edit history modal,
+// these can't collide with edit filenames since those are base-36 encoded
+const COMPARE_EDIT_PREVIOUS = "<previous>";
+const COMPARE_EDIT_CURRENT = "<current>";
+const COMPARE_EDIT_EMPTY = "<empty>";
 
 // XXX Use Github actions to release plugin 
 //     See https://docs.obsidian.md/Plugins/Releasing/Release+your+plugin+with+GitHub+Actions
@@ -147,39 +546,257 @@ const EDIT_HISTORY_FILE_EXT = ".edtz";
 
 // XXX Ignore changes if not enough diffs/too small?
 
-// XXX Allow merging entries in the edit history file older than a given time,
-//     at a given granularity
-
 // XXX Feed the editor undo stack with the contents of the history file? (could
 //     be done without private apis by inserting the text in edit history order at file
 //     load, will probably need a flag to prevent from storing double history)
 
-// XXX Allow management in the edit history modal, merging diffs, deleting, deleting all historyç
-
 // XXX tgz reduces size by half, use native browser gzip plus tar? (at the
 //     expense of having to uncompress the whole file in memory, not clear jszip
 //     does that already anyway?)
 //     See https://stackoverflow.com/questions/65446607/how-do-i-extract-data-from-a-tar-gz-file-stored-in-the-cloud-from-a-browser
 
 
-export default class EditHistory extends Plugin {
+/**
+ * Edit history storage that keeps edit history files in the vault
+ */
+class VaultEditHistoryStorage extends EditHistoryStorage {
+    vault: Vault;
+    fileManager: FileManager;
+
+    constructor(vault: Vault, fileManager: FileManager, dmpobj: DiffMatchPatch) {
+        super(dmpobj);
+        this.vault = vault;
+        this.fileManager = fileManager;
+    }
+
+    getHistoryFile(historyFilepath: string): TFile|null {
+        const zipFile = this.vault.getAbstractFileByPath(historyFilepath);
+        if ((zipFile != null) && !(zipFile instanceof TFile)) {
+            // Not a file, error
+            logError("Edit history file is not a file", historyFilepath);
+            return null;
+        }
+        return zipFile;
+    }
+
+    async readHistoryFile(historyFilepath: string): Promise<ArrayBuffer|null> {
+        const zipFile = this.getHistoryFile(historyFilepath);
+        if (zipFile == null) {
+            return null;
+        }
+        return await this.vault.readBinary(zipFile);
+    }
+
+    async writeHistoryFile(historyFilepath: string, data: ArrayBuffer) {
+        const zipFile = this.getHistoryFile(historyFilepath);
+        if (zipFile == null) {
+            // No existing zip file, create
+            
+            // The directory may not exist if history files are not saved
+            // alongside notes, and createBinary won't create the directory,
+            // so create it here. Do it unconditionally for simplicity and
+            // ignore errors, let createBinary fail if there was a problem
+            
+            // XXX Obsidian has issues with directories starting with "." :
+            //     - createBinary succeeds in creating the binary in a
+            //       directory starting with "." but returns null instead of a TFile
+            //     - createFolder succeeds in creating a folder starting with "."
+            //     - getAbstractFileByPath of a path starting with "." returns null
+            const dirpath = historyFilepath.substring(0, historyFilepath.lastIndexOf("/")+1);
+            logInfo("Conservatively creating dir", dirpath);
+            await this.vault.createFolder(dirpath).catch(()=>null);
+            const newZipFile = await this.vault.createBinary(historyFilepath, data);
+            if (newZipFile == null) {
+                logError("Can't create edit history file", historyFilepath);
+            }
+        } else {
+            // Update the zip file
+            await this.vault.modifyBinary(zipFile, data);
+        }
+    }
+
+    async renameHistoryFile(historyFilepath: string, newHistoryFilepath: string) {
+        const zipFile = this.getHistoryFile(historyFilepath);
+        if (zipFile != null) {
+            await this.vault.rename(zipFile, newHistoryFilepath);
+        }
+    }
+
+    async deleteHistoryFile(historyFilepath: string) {
+        const zipFile = this.getHistoryFile(historyFilepath);
+        if (zipFile != null) {
+            await this.vault.delete(zipFile);
+        }
+    }
+
+    /**
+     * Move the edit history file to the trash chosen in the Obsidian "Deleted
+     * files" setting, like any other vault file, system is ignored
+     */
+    async trashHistoryFile(historyFilepath: string, system: boolean) {
+        const zipFile = this.getHistoryFile(historyFilepath);
+        if (zipFile != null) {
+            await this.fileManager.trashFile(zipFile);
+        }
+    }
+
+    async existsHistoryFile(historyFilepath: string): Promise<boolean> {
+        return (this.getHistoryFile(historyFilepath) != null);
+    }
+
+    async listHistoryFiles(): Promise<string[]> {
+        return this.vault.getFiles()
+            .filter((file: TFile) => file.path.endsWith(EDIT_HISTORY_FILE_EXT))
+            .map((file: TFile) => file.path);
+    }
+}
+
+/**
+ * Create each folder in the path of the given file using the adapter, since
+ * not all adapters create the intermediate folders
+ */
+async function createParentFolders(adapter: DataAdapter, filepath: string) {
+    const dirs = filepath.split("/");
+    dirs.pop();
+    let dirpath = "";
+    for (const dir of dirs) {
+        dirpath = (dirpath == "") ? dir : dirpath + "/" + dir;
+        if (!await adapter.exists(dirpath)) {
+            logInfo("Creating dir", dirpath);
+            await adapter.mkdir(dirpath);
+        }
+    }
+}
+
+/**
+ * Edit history storage that keeps edit history files under a root folder
+ * using the vault adapter.
+ *
+ * Unlike the vault API, the adapter API can access folders starting with ".",
+ * which are not visible in the file explorer, so the edit history files can't
+ * be accidentally moved around by the user.
+ */
+class AdapterEditHistoryStorage extends EditHistoryStorage {
+    adapter: DataAdapter;
+    rootFolder: string;
+
+    constructor(adapter: DataAdapter, rootFolder: string, dmpobj: DiffMatchPatch) {
+        super(dmpobj);
+        this.adapter = adapter;
+        this.rootFolder = rootFolder;
+    }
+
+    async readHistoryFile(historyFilepath: string): Promise<ArrayBuffer|null> {
+        if (!await this.adapter.exists(historyFilepath)) {
+            return null;
+        }
+        return await this.adapter.readBinary(historyFilepath);
+    }
+
+    async writeHistoryFile(historyFilepath: string, data: ArrayBuffer) {
+        await createParentFolders(this.adapter, historyFilepath);
+        await this.adapter.writeBinary(historyFilepath, data);
+    }
+
+    async renameHistoryFile(historyFilepath: string, newHistoryFilepath: string) {
+        if (await this.adapter.exists(historyFilepath)) {
+            await createParentFolders(this.adapter, newHistoryFilepath);
+            await this.adapter.rename(historyFilepath, newHistoryFilepath);
+        }
+    }
+
+    async deleteHistoryFile(historyFilepath: string) {
+        if (await this.adapter.exists(historyFilepath)) {
+            await this.adapter.remove(historyFilepath);
+        }
+    }
+
+    async trashHistoryFile(historyFilepath: string, system: boolean) {
+        if (await this.adapter.exists(historyFilepath)) {
+            // Same as Vault.trash, fall back to the Obsidian trash if the
+            // system trash fails
+            if (!(system && await this.adapter.trashSystem(historyFilepath))) {
+                await this.adapter.trashLocal(historyFilepath);
+            }
+        }
+    }
+
+    async existsHistoryFile(historyFilepath: string): Promise<boolean> {
+        return await this.adapter.exists(historyFilepath);
+    }
+
+    async listHistoryFiles(): Promise<string[]> {
+        const historyFilepaths: string[] = [];
+        if (!await this.adapter.exists(this.rootFolder)) {
+            return historyFilepaths;
+        }
+        const dirpaths = [this.rootFolder];
+        while (dirpaths.length > 0) {
+            const listed = await this.adapter.list(dirpaths.pop() as string);
+            historyFilepaths.push(...listed.files.filter((filepath: string) => filepath.endsWith(EDIT_HISTORY_FILE_EXT)));
+            dirpaths.push(...listed.folders);
+        }
+        return historyFilepaths;
+    }
+}
+
+export default class EditHistory extends Plugin implements EditHistoryLimits {
     settings: EditHistorySettings;
     statusBarItemEl: HTMLElement;
-
-    // Minimum number of milliseconds between edits or Infinity, if a
-    // modification occurs before that time will be ignored at this moment and
-    // lumped with later modifications once the minimum time has passed and a
-    // new modification is done This means that the edit file may not contain
-    // the latest version Note that because of the current filename being
-    // derived from the epoch in seconds, changes done less than one second
-    // apart are ignored and lumped with the next change 
+    // Edit history of the note shown in the status bar, so it's not read
+    // again when only the pending state changes. Null if not read yet
+    statusBarInfo: { file: TFile, numEdits: number, newestEpoch: number, size: number }|null = null;
+    // Incremented on every status bar update, so only the most recent
+    // update sets the text
+    statusBarUpdateId = 0;
+    // Editor extensions registered on load, emptied or filled when the
+    // settings change
+    editorExtensions: Extension[] = [];
+    // Blame gutters of the open editors, refreshed after each stored edit
+    blameViewPlugins: Set<BlameViewPlugin> = new Set();
+    dmpobj: DiffMatchPatch = new DiffMatchPatch();
+    // Storage for the edit history files, depends on editHistoryRootFolder
+    storage: EditHistoryStorage;
+
+    // Milliseconds of idle time after the last modification of a file before
+    // storing an edit or Infinity for manual saving only. Modifications done
+    // before the timer expires reset the timer and are lumped together in the
+    // same edit. This means that the edit file may not contain the latest
+    // version until the timer expires or the pending edit is flushed
     minMsBetweenEdits: number;
+    // Idle timers of files with modifications not stored yet in the edit
+    // history file. Keyed by TFile, which Obsidian keeps updated on renames
+    pendingEdits: Map<TFile, number> = new Map();
+    // Contents of the files with pending edits as of their last modification,
+    // so the pending edit can still be stored if the file is deleted before
+    // the idle timer expires
+    pendingEditData: Map<TFile, string|ArrayBuffer> = new Map();
+    // Last task queued on each edit history file, keyed by edit history
+    // filepath, see queueEditHistoryTask
+    editHistoryTasks: Map<string, Promise<void>> = new Map();
     // Maximum number of age in milliseconds or Infinity
     maxEditAgeMs: number;
     // Maximum number of edits to keep or Infinity
     maxEdits: number;
     // Maximum size in bytes of the history file or Infinity
     maxEditHistoryFileSize: number;
+    // Number of edits between edits stored in full or Infinity
+    keyframeInterval: number;
+    // Thin out edits older than a day with a tiered retention
+    thinEdits: boolean;
+    // Number of unchanged lines to show around changes in the diff views or
+    // Infinity
+    diffContextLines: number;
+    // Storage for the edit history files of deleted notes
+    graveyard: EditHistoryStorage;
+    // Move the edit history file of deleted notes to the graveyard instead of
+    // removing it
+    keepDeletedEditHistory: boolean;
+    // Maximum time in milliseconds to keep edit history files in the
+    // graveyard or Infinity
+    maxDeletedEditHistoryAgeMs: number;
+    // Where removed edit history files go
+    editHistoryTrash: EditHistoryTrash;
     // Whitelist of note filename extensions to store edit history for. In
     // lowercase and including the initial dot. Empty for all.
     extensionWhitelist: string[];
@@ -187,9 +804,10 @@ export default class EditHistory extends Plugin {
     // lowercase, empty for none. Note obsidian normalizes paths to use forward
     // slash, so substrings for paths should use forward slashes
     substringBlacklist: string[];
-    // For now this should be "", other values work but the UX is not clear
-    // because the folder will be visible and the user may move it around
-    // breaking things
+    // Folder to keep all the edit history files in, mirroring the note
+    // folders, or "" to keep each edit history file alongside its note. Can
+    // start with "." so it's hidden from the file explorer. Only changed via
+    // moveEditHistoryFiles so existing edit history files are moved too
     editHistoryRootFolder: string;
 
     /**
@@ -234,599 +852,2215 @@ export default class EditHistory extends Plugin {
         return false;
     }
 
+    isBinaryFile(file: TFile): boolean {
+        return BINARY_EXTENSIONS.includes("." + file.extension.toLowerCase());
+    }
+
+    isImageFile(file: TFile): boolean {
+        return IMAGE_EXTENSIONS.includes("." + file.extension.toLowerCase());
+    }
+
     keepEditHistoryForActiveFile(): boolean {
         const activeFile = this.app.workspace.getActiveFile();
 
         return ((activeFile != null) && (this.keepEditHistoryForFile(activeFile)));
     }
     
-    getEditHistoryFilepath(filepath: string): string {
-        return normalizePath(this.editHistoryRootFolder + "/" + filepath + EDIT_HISTORY_FILE_EXT);
-    }
-
-    getEditCompressedSize(zip: JSZip, filepath: string): number {
-        // The only way of getting the file size is by accessing
-        // the internal field _data
-        // See https://github.com/Stuk/jszip/issues/247
-        return zip.file(filepath)._data.compressedSize;
-    }
-    
-    getEditEpoch(editFilename: string): number {
-        return parseInt(editFilename, 36) * 1000;
+    getEditHistoryFilepath(filepath: string, rootFolder: string = this.editHistoryRootFolder): string {
+        return normalizePath(rootFolder + "/" + filepath + EDIT_HISTORY_FILE_EXT);
     }
 
-    getEditDate(editFilename: string): Date {
-        return new Date(this.getEditEpoch(editFilename));
+    /**
+     * @return the filepath of the note for the given edit history filepath,
+     *         null if the edit history filepath is not under rootFolder
+     */
+    getNoteFilepath(historyFilepath: string, rootFolder: string = this.editHistoryRootFolder): string|null {
+        if (!historyFilepath.endsWith(EDIT_HISTORY_FILE_EXT)) {
+            return null;
+        }
+        let filepath = historyFilepath.slice(0, -EDIT_HISTORY_FILE_EXT.length);
+        if (rootFolder != "") {
+            if (!filepath.startsWith(rootFolder + "/")) {
+                return null;
+            }
+            filepath = filepath.slice(rootFolder.length + 1);
+        }
+        return filepath;
     }
 
-    getEditLocalDateStr(editFilename: string): string {
-        return this.getEditDate(editFilename).toLocaleString();
+    /**
+     * @return the filepath in the graveyard of the edit history file of the
+     *         given note, deleted at the given UTC epoch in milliseconds
+     */
+    getGraveyardFilepath(filepath: string, deletedMs: number): string {
+        // Include the deletion time so notes deleted more than once at the
+        // same path don't overwrite each other, and so the graveyard can be
+        // purged without opening the edit history files
+        return normalizePath(GRAVEYARD_FOLDER + "/" + filepath + "." + deletedMs.toString(36) + EDIT_HISTORY_FILE_EXT);
     }
 
-    getEditFileTime(editFilename: string): number {
-        // Note this ignores the hh:mm:ss part of the time
-        let d = this.getEditDate(editFilename);
-        d = new Date(d.getFullYear(), d.getMonth(), d.getDate());
-        const t = d.getTime();
-        return t;
+    /**
+     * @return the filepath and the UTC epoch in milliseconds of the deletion
+     *         of the note for the given graveyard filepath, null if not a
+     *         graveyard filepath
+     */
+    parseGraveyardFilepath(graveyardFilepath: string): { filepath: string, deletedMs: number }|null {
+        const filepath = this.getNoteFilepath(graveyardFilepath, GRAVEYARD_FOLDER);
+        if (filepath == null) {
+            return null;
+        }
+        const i = filepath.lastIndexOf(".");
+        const deletedMs = parseInt(filepath.slice(i + 1), 36);
+        if ((i == -1) || isNaN(deletedMs)) {
+            return null;
+        }
+        return { filepath: filepath.slice(0, i), deletedMs: deletedMs };
     }
 
-    getEditIsDiff(editFilename: string): boolean {
-        return !editFilename.endsWith("$");
-    }
-    
-    buildEditFilename(mtime: number, isDiff: boolean): string {
-        const utcepoch = Math.floor(mtime / 1000);
-        const editFilename = utcepoch.toString(36) + (isDiff ? "" : "$"); 
-        return editFilename;
+    /**
+     * Remove the edit history file following the Obsidian "Deleted files"
+     * setting for edit history files in the vault, or the editHistoryTrash
+     * setting for edit history files only accessible via the adapter (under
+     * an edit history folder or the graveyard), since FileManager.trashFile
+     * needs a vault file
+     */
+    async removeEditHistoryFile(storage: EditHistoryStorage, historyFilepath: string) {
+        logInfo("Removing edit history file", historyFilepath, "trash", this.editHistoryTrash);
+        if (storage instanceof VaultEditHistoryStorage) {
+            await storage.trashHistoryFile(historyFilepath, true);
+        } else if (this.editHistoryTrash == EditHistoryTrash.None) {
+            await storage.deleteHistoryFile(historyFilepath);
+        } else {
+            await storage.trashHistoryFile(historyFilepath, this.editHistoryTrash == EditHistoryTrash.System);
+        }
     }
 
     /**
-     * Sort in place
+     * Move the edit history file of the given deleted note to the graveyard,
+     * or remove it if the graveyard is disabled
      */
-    sortEdits(filenames: string[], descending: boolean = true) {
-        const i = descending ? 1 : -1; 
-        // Note this cannot do straight alphabetical sort on the base-36 encoded
-        // epochs since theoretically strings could be different lengths, convert
-        // to epoch before sorting
-        // XXX Could do .length plus < checks, though, removing trailing $ when
-        //     necessary)
-        filenames.sort((a,b) => i * (this.getEditEpoch(b) - this.getEditEpoch(a)));
+    async buryEditHistoryFile(filepath: string, historyFilepath: string) {
+        if (!this.keepDeletedEditHistory) {
+            await this.removeEditHistoryFile(this.storage, historyFilepath);
+            return;
+        }
+        const data = await this.storage.readHistoryFile(historyFilepath);
+        if (data == null) {
+            logWarn("Can't read edit history file", historyFilepath);
+            return;
+        }
+        const graveyardFilepath = this.getGraveyardFilepath(filepath, Date.now());
+        logInfo("Moving edit history file", historyFilepath, "to graveyard", graveyardFilepath);
+        await this.graveyard.writeHistoryFile(graveyardFilepath, data);
+        await this.storage.deleteHistoryFile(historyFilepath);
     }
 
-    commaSeparatedToList(s: string) {
-        let list : string[] = [];
-        // typescript string.split() returns 1-element array with empty item if
-        // s is empty, return empty list instead. Note if s is whitespace still
-        // want to return a single element list with a whitespace item.
-        if (s != "") {
-            list = s.split(",");
-            for (let i in list) {
-                list[i] = list[i].trim().toLowerCase();
+    /**
+     * Remove the edit history files that have been in the graveyard for
+     * longer than maxDeletedEditHistoryAgeMs
+     */
+    async purgeGraveyard(nowMs: number = Date.now()) {
+        for (const graveyardFilepath of await this.graveyard.listHistoryFiles()) {
+            const parsed = this.parseGraveyardFilepath(graveyardFilepath);
+            if ((parsed != null) && (nowMs - parsed.deletedMs > this.maxDeletedEditHistoryAgeMs)) {
+                logInfo("Purging graveyard edit history file", graveyardFilepath);
+                await this.removeEditHistoryFile(this.graveyard, graveyardFilepath);
             }
         }
-        
-        return list;
     }
 
-    parseSettings(settings: EditHistorySettings) {
-        // Hook log functions as early as possible so any console output is seen
-        // if enabled
-        hookLogFunctions(debugLevels.indexOf(settings.debugLevel), "EditHistoryPlugin");
+    /**
+     * Recreate a note from the most recent edit of the given edit history file
+     * and move the edit history file so it becomes the edit history of the
+     * recreated note.
+     *
+     * The note is recreated with a different name if a file or an edit
+     * history file already exists at the given path.
+     *
+     * @return the recreated note, null on error
+     */
+    async recreateNote(storage: EditHistoryStorage, historyFilepath: string, filepath: string): Promise<TFile|null> {
+        const editHistory = await storage.open(historyFilepath);
+        if (editHistory == null) {
+            new Notice("Can't open edit history file " + historyFilepath);
+            return null;
+        }
+        // The most recent edit is always stored in full
+        const mostRecentEdit = editHistory.listEdits()[0];
+        if (mostRecentEdit === undefined) {
+            new Notice("No edits to recover in " + historyFilepath);
+            return null;
+        }
 
-        this.minMsBetweenEdits = parseInt(settings.minSecondsBetweenEdits) * 1000 || Infinity; 
-        this.maxEdits = parseInt(settings.maxEdits) || Infinity;
-        this.maxEditAgeMs = parseInt(settings.maxEditAge) * 1000 || Infinity;
-        // XXX This needs to remove all edit history files when
-        //     extensions/substrings are removed/added?
-        this.extensionWhitelist = this.commaSeparatedToList(settings.extensionWhitelist)
-        this.substringBlacklist = this.commaSeparatedToList(settings.substringBlacklist);
-        this.maxEditHistoryFileSize = parseInt(settings.maxHistoryFileSizeKB) * 1024 || Infinity;
-        // XXX Note this is currently not updated in the settings modal, so the
-        //     value is unchanged
-        this.editHistoryRootFolder = settings.editHistoryRootFolder;
-    }
+        const i = filepath.lastIndexOf(".");
+        const [basepath, ext] = (i > filepath.lastIndexOf("/")) ? 
+            [filepath.slice(0, i), filepath.slice(i)] : [filepath, ""];
+        for (let n = 1; (this.app.vault.getAbstractFileByPath(filepath) != null) || 
+            ((storage != this.storage) || (this.getEditHistoryFilepath(filepath) != historyFilepath)) && 
+            (await this.storage.existsHistoryFile(this.getEditHistoryFilepath(filepath))); ++n) {
+            filepath = `${basepath} (recovered${(n > 1) ? " " + n : ""})${ext}`;
+        }
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-        this.parseSettings(this.settings);
-    }
+        logInfo("Recreating", filepath, "from", historyFilepath, "edit", mostRecentEdit);
+        const dirpath = filepath.substring(0, filepath.lastIndexOf("/")+1);
+        await this.app.vault.createFolder(dirpath).catch(()=>null);
+        const file = BINARY_EXTENSIONS.includes(ext.toLowerCase()) ? 
+            await this.app.vault.createBinary(filepath, await editHistory.getEditBinaryData(mostRecentEdit)) : 
+            await this.app.vault.create(filepath, await editHistory.getEditData(mostRecentEdit));
+
+        const newHistoryFilepath = this.getEditHistoryFilepath(filepath);
+        if (storage == this.storage) {
+            if (newHistoryFilepath != historyFilepath) {
+                await storage.renameHistoryFile(historyFilepath, newHistoryFilepath);
+            }
+        } else {
+            const data = await storage.readHistoryFile(historyFilepath) as ArrayBuffer;
+            await this.storage.writeHistoryFile(newHistoryFilepath, data);
+            await storage.deleteHistoryFile(historyFilepath);
+        }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
-        this.parseSettings(this.settings);
+        return file;
     }
 
-    async onload() {
-        // Load settings as early as possible console output is seen if enabled
-        await this.loadSettings();
-
-        // XXX Make this a member variable?
-        let dmpobj = new DiffMatchPatch();
-
-        logInfo("onLoad");
+    /**
+     * Recreate the deleted note of the given graveyard edit history file from
+     * its most recent edit, and move the edit history file out of the
+     * graveyard.
+     */
+    async recoverDeletedNote(graveyardFilepath: string) {
+        const parsed = this.parseGraveyardFilepath(graveyardFilepath);
+        if (parsed == null) {
+            new Notice("Not a deleted note edit history file " + graveyardFilepath);
+            return;
+        }
+        const file = await this.recreateNote(this.graveyard, graveyardFilepath, parsed.filepath);
+        if (file == null) {
+            return;
+        }
+        new Notice("Recovered deleted note " + file.path);
+        this.app.workspace.getLeaf().openFile(file);
+    }
 
-        this.registerEvent(this.app.vault.on("modify", async (fileOrFolder: TAbstractFile, force: boolean = false) => {
-            logInfo("vault modify", fileOrFolder.path);
-            // This reports any files or folders modified via the api, ignore
-            // non whitelisted files/folders
-            if (!(this.keepEditHistoryForFile(fileOrFolder))) {
-                logDbg("Ignoring non whitelisted file", fileOrFolder.path);
-                return;
+    /**
+     * @return the edit history filepaths with no note at the corresponding
+     *         note filepath, eg because the note was renamed or deleted
+     *         outside of Obsidian. Conflicting copies created by sync tools are
+     *         not orphans, see mergeConflictingEditHistoryFiles
+     */
+    async findOrphanedEditHistoryFiles(): Promise<string[]> {
+        const orphans: string[] = [];
+        const conflictFilepaths = new Set((await this.findConflictingEditHistoryFiles()).map(
+            (conflict: { conflictFilepath: string }) => conflict.conflictFilepath));
+        for (const historyFilepath of await this.storage.listHistoryFiles()) {
+            const filepath = this.getNoteFilepath(historyFilepath);
+            if ((filepath != null) && (this.app.vault.getAbstractFileByPath(filepath) == null) && 
+                !conflictFilepaths.has(historyFilepath)) {
+                orphans.push(historyFilepath);
             }
+        }
+        return orphans;
+    }
 
-            if ((this.minMsBetweenEdits == Infinity) && !force) {
-                // Don't generate a history file when manual saving is on until
-                // it's done manually. This prevents generating empty history
-                // files below for files that may never be manually saved
-                logDbg("Ignoring due to manual saving enabled")
-                return;
+    /**
+     * @param candidates notes to match against, only those with the same
+     *        extension as the orphaned note are considered
+     * @param lineSets cache of the line sets of the candidates, keyed by note
+     *        filepath, so the candidates are read only once across calls
+     * @return the note whose contents are the most similar to the most recent
+     *         edit of the given edit history file, null if no note is similar
+     *         enough
+     */
+    async findOrphanMatch(historyFilepath: string, candidates: TFile[], lineSets: Map<string, Set<string>>): Promise<TFile|null> {
+        const filepath = this.getNoteFilepath(historyFilepath) as string;
+        const editHistory = await this.storage.open(historyFilepath);
+        const mostRecentEdit = editHistory?.listEdits()[0];
+        if ((editHistory == null) || (mostRecentEdit === undefined)) {
+            return null;
+        }
+        const ext = filepath.slice(filepath.lastIndexOf(".") + 1).toLowerCase();
+        candidates = candidates.filter((file: TFile) => file.extension.toLowerCase() == ext);
+
+        if (BINARY_EXTENSIONS.includes("." + ext)) {
+            // Binary edits can only be matched if identical, compare hashes of
+            // the candidates with the same size
+            const data = await editHistory.getEditBinaryData(mostRecentEdit);
+            const hash = editHistory.getEditHash(mostRecentEdit) || await computeHash(data);
+            for (const file of candidates) {
+                if ((file.stat.size == data.byteLength) && 
+                    (await computeHash(await this.app.vault.readBinary(file)) == hash)) {
+                    return file;
+                }
             }
+            return null;
+        }
 
-            let file = fileOrFolder as TFile;
-            let zipFilepath = this.getEditHistoryFilepath(file.path);
-            let zipFile = this.app.vault.getAbstractFileByPath(zipFilepath);
-            if ((zipFile != null) && !(zipFile instanceof TFile)) {
-                // Not a file, error
-                logError("Edit history file is not a file", zipFilepath);
-                return;
+        // Pick the most similar note, if similar enough
+        const minSimilarity = 0.5;
+        const lineSet = getLineSet(await editHistory.getEditData(mostRecentEdit));
+        let bestSimilarity = minSimilarity;
+        let bestFile: TFile|null = null;
+        for (const file of candidates) {
+            let candidateLineSet = lineSets.get(file.path);
+            if (candidateLineSet === undefined) {
+                candidateLineSet = getLineSet(await this.app.vault.cachedRead(file));
+                lineSets.set(file.path, candidateLineSet);
             }
-            
-            // XXX Cleanup all naming:
-            //
-            //     - revision/edit: each individual file stored inside the zip
-            //       file containg a dmp patch in text form (collection of
-            //       contextless dmp diffs). Has a unique date and time. The
-            //       file stores the diff between this version and the previous
-            //       one and has the date at which the current version was
-            //       saved. First the whole version is saved verbatim without
-            //       diffs, when the next version comes across, then the current
-            //       version is diffed against the verbatim version and the
-            //       verbatin replaced with that diff
-            //
-            //     - diff: a version has one or more diffs (or none if the file
-            //       was stored verbatim).
-            //
-            //     - dmp diff: A dmp diff is context-full, it can be traversed.
-            //       Each diff has one DiffOp operation (delete, equal, insert)
-            //       with one or more lines of payload
-            //
-            //     - dmp patch: A dmp a patch is context-less, ie a set of diffs
-            //       that requires the file in order to be applied. Only has
-            //       delete and insert operations, equal has been removed so
-            //       they cannot be applied without the original file
-
-            // Ignore changes less than a given time ago unless forcing (ie event
-            // was triggered explicitly in order to force saving pending edits)
-            // XXX Abstract this and remove the force flag?
-            
-            // Note this uses the zipFile time and not the entry time (which
-            // requires reading the zipFile and has a DOS date 2-second
-            // inaccuracy and is local time) or the name to timestamp
-            // translation (which is accurate and UTC but requires hitting the
-            // zipFile)
-            
-            // XXX The zipFile date could be cached for later invocations to
-            //     early exit above without even decoding the zipfile path? (but
-            //     requires a per zipFile cache)
-            
-            // XXX Still there can be some minor inaccuracy because the zipFile
-            //     date is not reset, see
-            //     https://github.com/antoniotejada/obsidian-edit-history/issues/15
-
-            // XXX This has the issue that edits that are far apart in time 
-            //      could appear merged together:
-            //      1) An edit A was done at time T but it was too close to
-            //         the previous edit so it's ignored
-            //      2) Edit B is done hours later, now edit A and B are
-            //         stored as a single edit
-            //     This should either 
-            //     a) merge the current edit with the previous one as long
-            //        as not enough time has passed (inefficient since it will
-            //        be doing idle work on every modification) 
-            //     b) fire a timer on every modification, and only save from
-            //        that timer. Probably delay that timer if already running
-            //        so edits are only saved after "n seconds of idle time"
-            //        Using a timer also avoids any date checks on the file
-            //        This needs to watch out for any race conditions with a
-            //        simultaneous change, hopefully none since the file api
-            //        should be safe? (and typescript should be single
-            //        threaded) but still the file could have been deleted in 
-            //        the interim? Note this approach will still merge
-            //        unrelated edits when the app is closed before the timer
-            //        expires. The timer needs to be per file/editor?
-            //     See https://github.com/antoniotejada/obsidian-edit-history/issues/9
-            if (!force && 
-                (zipFile != null) && ((file.stat.mtime - zipFile.stat.mtime) < this.minMsBetweenEdits)) {
-                logDbg("Need to pass", 
-                    (this.minMsBetweenEdits - (file.stat.mtime - zipFile.stat.mtime)) / 1000, "s between edits, ignoring");
-                return;
+            const similarity = computeLineSimilarity(lineSet, candidateLineSet);
+            // On ties prefer notes with the same name, eg moved to a
+            // different folder
+            if ((similarity > bestSimilarity) || 
+                ((similarity == bestSimilarity) && (filepath.endsWith("/" + file.name) || (filepath == file.name)))) {
+                bestSimilarity = similarity;
+                bestFile = file;
             }
+        }
+        logInfo("Best match for", historyFilepath, "is", bestFile?.path, "similarity", bestSimilarity);
+        return bestFile;
+    }
 
-            // Ideally, in order to minimize history file size, the history file
-            // would store only diffs and then, at modify time:
-            // 1. recreate the currently stored version applying the last stored
-            //    diff to the pre-modified file
-            // 2. compute the diff between the pre-modified file and the
-            //    modified file
-            // 3. store that diff 
-            //
-            // Unfortunately there's no way to get the pre-modified version here
-            // since when the callback is called, the file has already been
-            // modified, so only the modified version is available. The solution
-            // is to always store the last modified version in full and then
-            // when a new modification is done, replace that version with the
-            // diff and store the full version, rinse repeat.
-            //
-            // Storing the latest version in full in the history file has
-            // benefits, though:
-            // - The history file can act as a backup even if the main file is
-            //   deleted
-            // - The history file is still valid even if the original file is
-            //   modified from outside Obsidian
-            
-            // XXX Another option that would likely make the Edit History File
-            //     smaller is to do the diffs backwards and store the first
-            //     version fully and build diffs on top of that first version.
-            //     That would make saving slower, though, since it will have to
-            //     rebuild the history from the start on every save, or cache
-            //     that the first time. Would also make trimming the history
-            //     file slightly harder (needs to rebuild the version that will
-            //     now become the first version when older versions are removed
-            //     from the file).
-
-            // Load the modified file data
-            let fileData = await this.app.vault.read(file);
-            let newFilename = this.buildEditFilename(file.stat.mtime, false);
-
-            // Create or open the zip with the versions of this file
-            let zip: JSZip = new JSZip();
-            let zipData = (zipFile == null) ? null : await this.app.vault.readBinary(zipFile);
-            let numEdits = 0;
-            if (zipData != null) {
-                // There's an existing zip file, update the most recent
-                // edit in the zip from full to diff wrt the incoming
-                // file
-                await zip.loadAsync(zipData);
-                
-                // Read the latest edit which, if it exists, it should
-                // be stored in full (vs diffed)
-                
-                // jszip seems to return newest files first, so arguably it
-                // would be enough with getting the first file in the list,
-                // but go through all of them and sort for robustness
-                let filepaths:string[] = [];
-                zip.forEach(function (relativePath:string, file: JSZip.JSZipObject) {
-                    filepaths.push(relativePath);
+    /**
+     * Search the text in all the versions of the given note.
+     * 
+     * Consecutive versions containing the text are reported once, as the most
+     * recent of them, so a text that was added, removed and added again is
+     * reported twice and a text that was never removed only once.
+     * 
+     * @return the results, most recent first
+     */
+    async searchEditHistory(file: TFile, query: string, matchCase: boolean): Promise<EditHistorySearchResult[]> {
+        const results: EditHistorySearchResult[] = [];
+        const editHistory = await this.storage.open(this.getEditHistoryFilepath(file.path));
+        if ((editHistory == null) || this.isBinaryFile(file)) {
+            return results;
+        }
+        // Search with a regexp instead of lowercasing, since lowercasing can
+        // change the length of the text (eg "İ") and the match position
+        // wouldn't correspond to the original text
+        const regexp = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), matchCase ? "u" : "iu");
+        let prevFound = false;
+        await editHistory.forEachVersion((editFilename: string, data: string) => {
+            const match = regexp.exec(data);
+            if ((match != null) && !prevFound) {
+                const index = match.index;
+                const matchEnd = index + match[0].length;
+                const start = Math.max(0, index - SEARCH_SNIPPET_CONTEXT);
+                const end = Math.min(data.length, matchEnd + SEARCH_SNIPPET_CONTEXT);
+                results.push({
+                    file: file,
+                    editFilename: editFilename,
+                    // Show the snippet in a single line
+                    before: ((start > 0) ? "..." : "") + data.slice(start, index).replace(/\s+/g, " "),
+                    match: match[0],
+                    after: data.slice(matchEnd, end).replace(/\s+/g, " ") + ((end < data.length) ? "..." : ""),
                 });
-
-                // Sort most recent first
-                this.sortEdits(filepaths);
-
-                // Purge entries, oldest first
-                let todayUTC = new Date().getTime();
-                let zipFileSize = zipData.byteLength;
-                while (filepaths.length > 0) {
-                    let purge = false;
-                    // Note entries are purged last entry first
-                    let filepath = filepaths[filepaths.length-1];
-                    // Note there's a new edit incoming, so check max number of
-                    // edits for equality too
-                    if (filepaths.length >= this.maxEdits) {
-                        logInfo("Will purge entry", filepath, "over max count", 
-                            filepaths.length, ">", this.maxEdits)
-                        purge = true;
-                    }
-                    let filepathAgeMs = todayUTC - this.getEditEpoch(filepath);
-                    if (filepathAgeMs > this.maxEditAgeMs) {
-                        logInfo("Will purge entry", filepath, "over max age", 
-                            filepathAgeMs * 1000, ">", this.maxEditAgeMs * 1000);
-                        purge = true;
-                    }
-                    if (zipFileSize > this.maxEditHistoryFileSize) {
-                        logInfo("Will purge entry", filepath, "over max size", 
-                            zipFileSize, ">", this.maxEditHistoryFileSize);
-                        // XXX Instead of just purging this could do something
-                        //     smarter like merging entries which could also
-                        //     decrease the history file size?
-                        purge = true;
-                        zipFileSize -= this.getEditCompressedSize(zip, filepath);
-                    }
-                    if (!purge) {
-                        // Entries are purged from the end, loop can exit if
-                        // this entry is not purged
-                        break;
-                    }
-                    logInfo("Purging entry", filepath);
-                    filepaths.pop();
-                    zip.remove(filepath);
+            }
+            prevFound = (match != null);
+        });
+        return results;
+    }
+
+    /**
+     * Export the edit history files of the notes in the scope (see
+     * isFilepathInScope) into the given folder, either as a git fast-import
+     * stream with a commit per edit or as a file per edit named after the
+     * date of the edit
+     *
+     * @param onProgress called after exporting each edit history file with
+     *        the number of edit history files exported and the total
+     * @return the filepath of the stream or the folder with the files
+     */
+    async exportEditHistory(scope: string, format: ExportFormat, folder: string, onProgress: (done: number, total: number) => void = () => {}): Promise<string> {
+        logInfo("Exporting", scope, "as", format, "to", folder);
+        // Make sure the latest edits are exported too
+        await this.flushPendingEdits(true);
+
+        const adapter = this.app.vault.adapter;
+        folder = normalizePath(folder);
+        const historyFilepaths = (await this.storage.listHistoryFiles()).filter((historyFilepath: string) => 
+            isFilepathInScope(this.getNoteFilepath(historyFilepath) || "", scope)).sort();
+        // Compact ISO date, eg "20240101T120000.123Z", so files sort by date
+        const getStampStr = (epoch: number) => new Date(epoch).toISOString().replace(/[-:]/g, "");
+
+        let exportFilepath = folder;
+        let writer: GitFastImportWriter|null = null;
+        // Chunks of the stream not written yet and their total size
+        const chunks: Uint8Array[] = [];
+        let chunksSize = 0;
+        // XXX appendBinary needs app 1.12.3, older apps keep the whole stream
+        //     in memory and write it when done, remove the fallback once the
+        //     minimum app version allows it
+        const canAppend = (typeof adapter.appendBinary === "function");
+        const writeChunks = async () => {
+            await adapter.appendBinary(exportFilepath, concatChunks(chunks));
+            chunks.length = 0;
+            chunksSize = 0;
+        };
+        if (format == ExportFormat.GitFastImport) {
+            exportFilepath = normalizePath(folder + "/edit-history-" + getStampStr(Date.now()) + ".fi");
+            await createParentFolders(adapter, exportFilepath);
+            await adapter.writeBinary(exportFilepath, new ArrayBuffer(0));
+            // Append the stream as it's produced, a few chunks at a time to
+            // avoid writing to the file on each tiny chunk, so a whole vault
+            // export doesn't need to be kept in memory
+            writer = new GitFastImportWriter(async (data: Uint8Array) => {
+                chunks.push(data);
+                chunksSize += data.byteLength;
+                if (canAppend && (chunksSize >= EXPORT_WRITE_SIZE)) {
+                    await writeChunks();
                 }
-                numEdits = filepaths.length;
-                
-                if (filepaths.length > 0) {
-                    // Diff the latest stored edit against the incoming file
-                    // data, if the zip file is empty just store the incoming
-                    // file. If there are no stored edits, continue to store the
-                    // incoming one fully
-
-                    // Note it needs to store the incoming file in full and not
-                    // the diff because otherwise there's no way to reconstruct
-                    // the previous version to diff against (Obsidian calls
-                    // "modify" after the file has been written)
-
-                    // XXX Will this ever be used for binary files? Don't do
-                    //     diffs on binary files/extensions and always store
-                    //     fully? Show some binary diff in the modal? image
-                    //     diff?
-                    
-                    let mostRecentFilename = filepaths[0];
-                    let mostRecentFile = zip.file(mostRecentFilename);
-
-                    if (this.getEditEpoch(mostRecentFilename) == this.getEditEpoch(newFilename)) {
-                        // Don't allow changes done at the same epoch since it
-                        // will get the same filename and overwrite the previous
-                        // version, corrupting the history. With the current
-                        // epoch granularity this essentially means that changes
-                        // have to be at least one second apart, which is almost
-                        // always the case unless there's a forced save.
-                        // XXX This could just remove the last change and update
-                        //     to this one?
-                        logInfo("Delaying entry due to colliding epochs");
-                        return;
-                    }
-                    
-                    logInfo("unpacking " + mostRecentFilename);
-                    let prevFileData = await mostRecentFile.async("string");
-                    // @ts-ignore: complains about missing opt_c, but
-                    // passing only two arguments is actually allowed by the
-                    // diff-match-patch API
-                    let diffs = dmpobj.patch_make(fileData, prevFileData.toString());
-                    if (diffs.length > 0) {
-                        let patch = dmpobj.patch_toText(diffs);
-
-                        // XXX Don't save the version if it has less than a
-                        //     given size in bytes? (but it has already done the
-                        //     work and the savings because of merging updates
-                        //     may not be that big, although at the very least
-                        //     it shouldn't save versions where most of it are
-                        //     control chars?)
-                        
-                        // Don't bother replacing with the diffed version if
-                        // the diff is larger than the original
-                        if (patch.length < prevFileData.length) {
-                            // Replace the previous version with a diff wrt the
-                            // newest version
-                            logInfo("Removing ", mostRecentFilename);
-                            zip.remove(mostRecentFilename);
-                            // Store as a diff
-                            mostRecentFilename = this.buildEditFilename(
-                                this.getEditEpoch(mostRecentFilename), 
-                                true
-                            );
-                            logInfo("Storing ", mostRecentFilename, " with date ", 
-                                mostRecentFile.date, " timestamp ", mostRecentFile.extendedTimestamp);
-                            // XXX Investigate why there's no need to undo
-                            //     the UTC offset here: 
-                            //     - Javascript UTC dates are stored as is
-                            //       in the zip object metadata
-                            //     - To prevent bad dates 
-                            //
-                            await zip.file(mostRecentFilename, patch,
-                                { date: mostRecentFile.date, compression:"DEFLATE" });
-                        }
+            });
+        }
+
+        for (let i = 0; i < historyFilepaths.length; ++i) {
+            const filepath = this.getNoteFilepath(historyFilepaths[i]) as string;
+            const editHistory = await this.storage.open(historyFilepaths[i]);
+            if (editHistory == null) {
+                continue;
+            }
+            if (writer != null) {
+                await writer.addEditHistory(filepath, editHistory);
+            } else {
+                // Keep the extension so the exported files can be opened with
+                // the same application as the note
+                const j = filepath.lastIndexOf(".");
+                const [basepath, ext] = (j > filepath.lastIndexOf("/")) ? 
+                    [filepath.slice(0, j), filepath.slice(j)] : [filepath, ""];
+                await editHistory.forEachVersionData(async (editFilename: string, data: string|ArrayBuffer) => {
+                    const epoch = getEditEpoch(editFilename);
+                    const editFilepath = normalizePath(folder + "/" + basepath + "." + getStampStr(epoch) + ext);
+                    await createParentFolders(adapter, editFilepath);
+                    // Set the modification time to the date of the edit
+                    const options = { mtime: epoch };
+                    if (typeof data === "string") {
+                        await adapter.write(editFilepath, data, options);
                     } else {
-                        logInfo("No changes detected, ignoring");
-                        return;
+                        await adapter.writeBinary(editFilepath, data, options);
                     }
-                }  
-            }
-
-            // Store the newest version in full
-
-            // jszip stores dates in UTC but the zip standard and zip tools
-            // expect the date in local times (DOS times). Also, note that
-            // dates in zip are only accurate to even seconds because DOS
-            // times only use 16 bytes, which can only fit 5 bits for
-            // seconds.
-
-            // If we want tools (explorer, total commander...) to display
-            // the right date, we could store the local date by providing
-            // jszip with the UTC offset undone:
-            //     dateWithOffset = new Date(new Date().getTime() - new Date().getTimezoneOffset() * 60000);
-            // But it has limited use since those tools won't show the right
-            // date across timezones or DST changes, eg a file in a zip
-            // saved before DST with time 10.30 will be displayed with time
-            // 9.30 after DST. 
-
-            // see https://github.com/Stuk/jszip/issues/369
-            // see https://github.com/Stuk/jszip/blob/master/lib/reader/DataReader.js#L113
-            // see https://opensource.apple.com/source/zip/zip-6/unzip/unzip/proginfo/extra.fld
-            // see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
-            let dateWithOffset = new Date(file.stat.mtime - new Date().getTimezoneOffset() * 60000);
-            logInfo("Storing", newFilename, " with date", dateWithOffset);
-            zip.file(newFilename, fileData, { date: dateWithOffset, compression:"DEFLATE" });
-            
-            // Generate zip archive and save
-            let newZipData = await zip.generateAsync({type: "arraybuffer", compression: "DEFLATE"});
-            if (zipFile == null) {
-                // No existing zip file, create
-                
-                // The directory may not exist if history files are not saved
-                // alongside notes, and createBinary won't create the directory,
-                // so create it here. Do it unconditionally for simplicity and
-                // ignore errors, let createBinary fail if there was a problem
-                
-                // XXX Obsidian has issues with directories starting with "." :
-                //     - createBinary succeeds in creating the binary in a
-                //       directory starting with "." but returns null instead of a TFile
-                //     - createFolder succeeds in creating a folder starting with "."
-                //     - getAbstractFileByPath of a path starting with "." returns null
-                let dirpath = zipFilepath.substring(0, zipFilepath.lastIndexOf("/")+1);
-                logInfo("Conservatively creating dir", dirpath);
-                await this.app.vault.createFolder(dirpath).catch(()=>null);
-                let zipFile = await this.app.vault.createBinary(zipFilepath, newZipData);
-                if (zipFile == null) {
-                    logError("Can't create edit history file", zipFilepath);
-                    return;
+                });
+            }
+            onProgress(i + 1, historyFilepaths.length);
+        }
+
+        if (writer != null) {
+            await writer.finish();
+            if (canAppend) {
+                await writeChunks();
+            } else {
+                await adapter.writeBinary(exportFilepath, concatChunks(chunks));
+            }
+        }
+        logInfo("Exported", historyFilepaths.length, "edit history files to", exportFilepath);
+
+        return exportFilepath;
+    }
+
+    /**
+     * @return the conflicting copies of edit history files created by sync
+     *         tools, with the edit history file they are a copy of and the
+     *         name of the conflict (eg the device)
+     */
+    async findConflictingEditHistoryFiles(): Promise<{ historyFilepath: string, conflictFilepath: string, branch: string }[]> {
+        const conflicts = [];
+        for (const conflictFilepath of await this.storage.listHistoryFiles()) {
+            const filepath = conflictFilepath.slice(0, -EDIT_HISTORY_FILE_EXT.length);
+            for (const regexp of SYNC_CONFLICT_REGEXPS) {
+                const match = filepath.match(regexp);
+                if (match != null) {
+                    conflicts.push({
+                        historyFilepath: filepath.slice(0, match.index) + EDIT_HISTORY_FILE_EXT,
+                        conflictFilepath: conflictFilepath,
+                        branch: match[1],
+                    });
+                    break;
+                }
+            }
+        }
+        return conflicts;
+    }
+
+    /**
+     * Merge the conflicting copies of edit history files created by sync
+     * tools into the edit history file they are a copy of, and remove them.
+     *
+     * Conflicting copies that diverged can't be merged into a single line of
+     * edits, those are kept as the edit history of a new note named after the
+     * note and the conflict, with the contents of the most recent edit of the
+     * copy.
+     */
+    async mergeConflictingEditHistoryFiles() {
+        // Make sure the pending edits are stored before merging
+        await this.flushPendingEdits(true);
+
+        const conflicts = await this.findConflictingEditHistoryFiles();
+        if (conflicts.length == 0) {
+            new Notice("No conflicting edit history files found");
+            return;
+        }
+        let numMerged = 0;
+        let numBranched = 0;
+        for (const conflict of conflicts) {
+            logInfo("Merging conflicting edit history file", conflict.conflictFilepath, "into", conflict.historyFilepath);
+            const conflictHistory = await this.storage.open(conflict.conflictFilepath);
+            if (conflictHistory == null) {
+                logWarn("Can't open conflicting edit history file", conflict.conflictFilepath);
+                continue;
+            }
+            const isLinear = await this.queueEditHistoryTask(conflict.historyFilepath, async () => {
+                const editHistory = await this.storage.open(conflict.historyFilepath);
+                if (editHistory == null) {
+                    // Nothing to merge with, just take its place
+                    await this.storage.renameHistoryFile(conflict.conflictFilepath, conflict.historyFilepath);
+                    return true;
+                }
+                const isLinear = await editHistory.merge(conflictHistory, this.keyframeInterval);
+                if (isLinear) {
+                    await this.storage.save(conflict.historyFilepath, editHistory);
                 }
+                return isLinear;
+            });
+            if (isLinear) {
+                await this.removeEditHistoryFile(this.storage, conflict.conflictFilepath);
             } else {
-                // Update the zip file
-                await this.app.vault.modifyBinary(zipFile, newZipData);
+                // Keep the diverged edits as a branch, in a note of its own
+                const filepath = this.getNoteFilepath(conflict.historyFilepath) as string;
+                const i = filepath.lastIndexOf(".");
+                const [basepath, ext] = (i > filepath.lastIndexOf("/")) ? 
+                    [filepath.slice(0, i), filepath.slice(i)] : [filepath, ""];
+                const file = await this.recreateNote(this.storage, conflict.conflictFilepath, 
+                    `${basepath} (${conflict.branch})${ext}`);
+                logWarn("Couldn't linearize", conflict.conflictFilepath, "kept as branch", file?.path);
+                numBranched++;
             }
-            // XXX This needs to update when switching panes, etc, or set a timer
-            this.statusBarItemEl.setText((numEdits + 1) + " edits");
-        }));
+            numMerged++;
+        }
+        new Notice(`Merged ${numMerged} conflicting edit history files` + 
+            ((numBranched > 0) ? `, ${numBranched} diverged and were kept as branch notes` : ""));
+    }
+
+    /**
+     * Reveal the view of the given type, opening it in a new tab or in the
+     * right sidebar if not open
+     */
+    async activateView(viewType: string, sidebar = false) {
+        let leaf: WorkspaceLeaf|null|undefined = this.app.workspace.getLeavesOfType(viewType)[0];
+        if (leaf === undefined) {
+            leaf = sidebar ? this.app.workspace.getRightLeaf(false) : this.app.workspace.getLeaf("tab");
+            if (leaf == null) {
+                logWarn("Can't create a leaf for view", viewType);
+                return;
+            }
+            await leaf.setViewState({ type: viewType, active: true });
+        }
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Render again the edit history side panels showing the given note
+     */
+    refreshEditHistoryViews(file: TFile) {
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_EDIT_HISTORY)) {
+            const view = leaf.view;
+            if ((view instanceof EditHistoryView) && (view.panel?.file == file)) {
+                view.refresh();
+            }
+        }
+    }
+
+    /**
+     * @return the kind of device and OS Obsidian is running on, for the edit
+     *         metadata, eg "desktop-windows" or "mobile-android"
+     */
+    getDeviceName(): string {
+        const os = Platform.isIosApp ? "ios" : 
+            Platform.isAndroidApp ? "android" : 
+            Platform.isMacOS ? "macos" : 
+            Platform.isWin ? "windows" : 
+            Platform.isLinux ? "linux" : "unknown";
+        return (Platform.isMobile ? "mobile" : "desktop") + "-" + os;
+    }
+
+    createStorage(rootFolder: string): EditHistoryStorage {
+        // Edit history files alongside notes are regular vault files, but a
+        // root folder can be hidden, which is only accessible via the adapter
+        const storage = (rootFolder == "") ? 
+            new VaultEditHistoryStorage(this.app.vault, this.app.fileManager, this.dmpobj) : 
+            new AdapterEditHistoryStorage(this.app.vault.adapter, rootFolder, this.dmpobj);
+        storage.pluginVersion = this.manifest.version;
+        storage.device = this.getDeviceName();
+        return storage;
+    }
+
+    /**
+     * Move all the edit history files from the current root folder to the
+     * given one and make it the current root folder.
+     *
+     * Each edit history file is copied and then removed from the old location,
+     * edit history files that already exist in the new location are left
+     * untouched in both locations.
+     */
+    async moveEditHistoryFiles(rootFolder: string) {
+        rootFolder = (rootFolder.trim() == "") ? "" : normalizePath(rootFolder);
+        if (rootFolder == "/") {
+            rootFolder = "";
+        }
+        const oldRootFolder = this.editHistoryRootFolder;
+        if (rootFolder == oldRootFolder) {
+            new Notice("Edit history files are already in that folder");
+            return;
+        }
+        if (rootFolder.split("/").includes("..")) {
+            new Notice("Invalid edit history folder " + rootFolder);
+            return;
+        }
+        logInfo("Moving edit history files from", oldRootFolder, "to", rootFolder);
+
+        // Make sure the pending edits are stored before moving, otherwise they
+        // would recreate the edit history files in the old folder
+        await this.flushPendingEdits(true);
+
+        const oldStorage = this.storage;
+        const newStorage = this.createStorage(rootFolder);
+        const notice = new Notice("Moving edit history files", 0);
+        let numMoved = 0;
+        let numSkipped = 0;
+        for (const historyFilepath of await oldStorage.listHistoryFiles()) {
+            const filepath = this.getNoteFilepath(historyFilepath, oldRootFolder);
+            // When edit history files are alongside notes, the new root folder
+            // may already have edit history files if it was used before, don't
+            // move them into themselves
+            if ((filepath == null) || ((rootFolder != "") && historyFilepath.startsWith(rootFolder + "/"))) {
+                logDbg("Ignoring edit history file", historyFilepath);
+                continue;
+            }
+            const newHistoryFilepath = this.getEditHistoryFilepath(filepath, rootFolder);
+            if (await newStorage.existsHistoryFile(newHistoryFilepath)) {
+                logWarn("Not moving edit history file", historyFilepath, "destination already exists", newHistoryFilepath);
+                numSkipped++;
+                continue;
+            }
+            const data = await oldStorage.readHistoryFile(historyFilepath);
+            if (data == null) {
+                logWarn("Can't read edit history file", historyFilepath);
+                numSkipped++;
+                continue;
+            }
+            logInfo("Moving edit history file", historyFilepath, "to", newHistoryFilepath);
+            await newStorage.writeHistoryFile(newHistoryFilepath, data);
+            await oldStorage.deleteHistoryFile(historyFilepath);
+            numMoved++;
+            notice.setMessage(`Moving edit history files ${numMoved}`);
+        }
+        notice.hide();
+
+        this.settings.editHistoryRootFolder = rootFolder;
+        await this.saveSettings();
+
+        new Notice(`Moved ${numMoved} edit history files to ${(rootFolder == "") ? "the note folders" : rootFolder}` + 
+            ((numSkipped > 0) ? `, ${numSkipped} not moved, see the console for details` : ""));
+    }
+
+    commaSeparatedToList(s: string) {
+        let list : string[] = [];
+        // typescript string.split() returns 1-element array with empty item if
+        // s is empty, return empty list instead. Note if s is whitespace still
+        // want to return a single element list with a whitespace item.
+        if (s != "") {
+            list = s.split(",");
+            for (let i in list) {
+                list[i] = list[i].trim().toLowerCase();
+            }
+        }
         
-        this.registerEvent(this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
-            logInfo("vault rename path", file.path);
+        return list;
+    }
+
+    parseSettings(settings: EditHistorySettings) {
+        // Hook log functions as early as possible so any console output is seen
+        // if enabled
+        hookLogFunctions(debugLevels.indexOf(settings.debugLevel), "EditHistoryPlugin");
+
+        this.minMsBetweenEdits = parseInt(settings.minSecondsBetweenEdits) * 1000 || Infinity; 
+        this.maxEdits = parseInt(settings.maxEdits) || Infinity;
+        this.maxEditAgeMs = parseInt(settings.maxEditAge) * 1000 || Infinity;
+        // XXX This needs to remove all edit history files when
+        //     extensions/substrings are removed/added?
+        this.extensionWhitelist = this.commaSeparatedToList(settings.extensionWhitelist)
+        this.substringBlacklist = this.commaSeparatedToList(settings.substringBlacklist);
+        this.maxEditHistoryFileSize = parseInt(settings.maxHistoryFileSizeKB) * 1024 || Infinity;
+        this.keyframeInterval = parseInt(settings.keyframeInterval) || Infinity;
+        this.thinEdits = settings.thinEdits;
+        this.diffContextLines = parseInt(settings.diffContextLines) || Infinity;
+        this.keepDeletedEditHistory = settings.keepDeletedEditHistory;
+        this.maxDeletedEditHistoryAgeMs = parseInt(settings.maxDeletedEditHistoryDays) * 24 * 60 * 60 * 1000 || Infinity;
+        this.editHistoryTrash = settings.editHistoryTrash as EditHistoryTrash;
+        this.editHistoryRootFolder = settings.editHistoryRootFolder;
+        this.storage = this.createStorage(this.editHistoryRootFolder);
+    }
+
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.parseSettings(this.settings);
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+        this.parseSettings(this.settings);
+    }
+
+    /**
+     * (Re)start the idle timer of the given file, the edit will be stored when
+     * the timer expires without further modifications
+     */
+    scheduleEdit(file: TFile) {
+        const timerId = this.pendingEdits.get(file);
+        if (timerId !== undefined) {
+            window.clearTimeout(timerId);
+        }
+        logDbg("Scheduling edit for", file.path, "in", this.minMsBetweenEdits / 1000, "s");
+        this.pendingEdits.set(file, window.setTimeout(() => {
+            logInfo("Idle timer expired for", file.path);
+            this.storeEdit(file).catch((e) => {
+                logError("Can't store edit of", file.path, e);
+            });
+        }, this.minMsBetweenEdits));
+    }
+
+    /**
+     * Cancel the pending edit of the given file, if any
+     *
+     * @return true if there was a pending edit
+     */
+    cancelPendingEdit(file: TFile): boolean {
+        const timerId = this.pendingEdits.get(file);
+        if (timerId === undefined) {
+            return false;
+        }
+        window.clearTimeout(timerId);
+        this.pendingEdits.delete(file);
+        this.pendingEditData.delete(file);
+        return true;
+    }
+
+    /**
+     * Store the pending edits of the files that are not open in any leaf
+     * anymore (or of all files if all is true)
+     *
+     * @return a promise that resolves when the pending edits are stored, and
+     *         if all is true, also the edits being stored already (eg by an
+     *         idle timer)
+     */
+    async flushPendingEdits(all = false) {
+        if (all) {
+            await Promise.all(this.editHistoryTasks.values());
+        }
+        if (this.pendingEdits.size == 0) {
+            return;
+        }
+        const openFiles = new Set<TFile>();
+        if (!all) {
+            this.app.workspace.iterateAllLeaves((leaf) => {
+                if ((leaf.view instanceof FileView) && (leaf.view.file != null)) {
+                    openFiles.add(leaf.view.file);
+                }
+            });
+        }
+        const stores: Promise<void>[] = [];
+        for (const file of Array.from(this.pendingEdits.keys())) {
+            if (!openFiles.has(file)) {
+                logInfo("Flushing pending edit for", file.path);
+                // Don't let a failed store (eg the file was deleted meanwhile)
+                // prevent storing the other edits
+                stores.push(this.storeEdit(file).catch((e) => {
+                    logError("Can't store edit of", file.path, e);
+                }));
+            }
+        }
+        await Promise.all(stores);
+    }
+
+    /**
+     * Run the task once the tasks queued before on the same edit history file
+     * have finished, so tasks that read, modify and write the edit history
+     * file (eg the idle timer, a manual save and a flush storing an edit of the
+     * same note) don't overwrite each other's changes
+     *
+     * @return the result of the task
+     */
+    async queueEditHistoryTask<T>(historyFilepath: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.editHistoryTasks.get(historyFilepath) || Promise.resolve();
+        // Run the task even if the previous one failed, the previous task's
+        // caller handles its error
+        const result = previous.then(task);
+        const done = result.then(() => {}, () => {});
+        this.editHistoryTasks.set(historyFilepath, done);
+        await done;
+        if (this.editHistoryTasks.get(historyFilepath) == done) {
+            // No tasks queued after this one
+            this.editHistoryTasks.delete(historyFilepath);
+        }
+        return await result;
+    }
+
+    /**
+     * Store the current contents of the given file as a new edit in its edit
+     * history file, purging older edits as necessary. Any pending edit for
+     * the file is stored as part of this one.
+     *
+     * @param label label to set on the stored edit, or on the most recent
+     *        edit if the contents didn't change
+     */
+    async storeEdit(file: TFile, label: EditLabel|null = null) {
+        logInfo("storeEdit", file.path);
+        this.cancelPendingEdit(file);
+
+        const zipFilepath = this.getEditHistoryFilepath(file.path);
+        const numEdits = await this.queueEditHistoryTask(zipFilepath, async () => {
+            // Load the modified file data once the previous tasks are done,
+            // so the most recent contents are stored
+            const fileData = this.isBinaryFile(file) ? 
+                await this.app.vault.readBinary(file) : 
+                await this.app.vault.read(file);
+            const numEdits = await this.storage.storeEdit(zipFilepath, fileData, file.stat.mtime, this);
+            if (label != null) {
+                await this.saveEditLabel(zipFilepath, null, label);
+            }
+            return numEdits;
+        });
+        if (label != null) {
+            // Labels are shown on hover
+            this.refreshBlame(file);
+        }
+        if (numEdits == null) {
+            // Nothing stored, but it's no longer pending
+            this.updateStatusBar();
+            return;
+        }
+        this.updateStatusBar(true);
+        this.refreshBlame(file);
+        this.refreshEditHistoryViews(file);
+    }
+
+    /**
+     * Update the status bar with the edit history of the active note: number
+     * of edits, time of the most recent edit and whether there are changes
+     * not stored yet, plus the edit history file size on hover
+     * 
+     * @param reload read the edit history file again, otherwise only read it
+     *        if the active note changed
+     */
+    async updateStatusBar(reload = false) {
+        const updateId = ++this.statusBarUpdateId;
+        const file = this.app.workspace.getActiveFile();
+        if ((file == null) || !this.keepEditHistoryForFile(file)) {
+            this.statusBarInfo = null;
+            this.statusBarItemEl.setText("");
+            setTooltip(this.statusBarItemEl, "");
+            return;
+        }
+        if (reload || (this.statusBarInfo?.file != file)) {
+            const editHistory = await this.storage.open(this.getEditHistoryFilepath(file.path));
+            if (updateId != this.statusBarUpdateId) {
+                // A more recent update is in progress
+                return;
+            }
+            const filepaths = editHistory?.listEdits() || [];
+            this.statusBarInfo = {
+                file: file,
+                numEdits: filepaths.length,
+                newestEpoch: (filepaths.length > 0) ? getEditEpoch(filepaths[0]) : 0,
+                size: editHistory?.size || 0,
+            };
+        }
+        const info = this.statusBarInfo as { file: TFile, numEdits: number, newestEpoch: number, size: number };
+        // Changes are pending if waiting for the time between edits, or with
+        // manual saving if the note was modified after the most recent edit
+        // XXX With manual saving this is wrong if the note was modified but
+        //     its contents didn't change, since no edit is stored
+        const pending = this.pendingEdits.has(file) || 
+            ((this.minMsBetweenEdits == Infinity) && (file.stat.mtime > info.newestEpoch));
+        let text = info.numEdits + " edits";
+        if (info.numEdits > 0) {
+            // Only show the time for today's edits
+            const date = new Date(info.newestEpoch);
+            text += ", last " + ((date.toDateString() == new Date().toDateString()) ? 
+                date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : 
+                date.toLocaleDateString());
+        }
+        if (pending) {
+            text += " *";
+        }
+        this.statusBarItemEl.setText(text);
+        setTooltip(this.statusBarItemEl, 
+            `Edit history file size ${formatSize(info.size)}` + 
+            ((info.numEdits > 0) ? `\nLast edit ${new Date(info.newestEpoch).toLocaleString()}` : "") +
+            (pending ? "\n* Latest changes not stored in the edit history yet" : ""), 
+            { placement: "top" });
+    }
+
+    /**
+     * Enable or disable the editor extensions following the settings
+     */
+    updateEditorExtensions() {
+        this.editorExtensions.length = 0;
+        if (this.settings.showBlameGutter) {
+            this.editorExtensions.push(this.createBlameExtension());
+        }
+        this.app.workspace.updateOptions();
+    }
+
+    /**
+     * @return the extension showing in a gutter the date of the edit that
+     *         most recently modified each line
+     */
+    createBlameExtension(): Extension {
+        return [
+            blameMarkersField,
+            ViewPlugin.define((view: EditorView) => new BlameViewPlugin(view, this)),
+            gutter({
+                class: "edit-history-blame-gutter",
+                markers: (view: EditorView) => view.state.field(blameMarkersField),
+                domEventHandlers: {
+                    click: (view: EditorView, line) => {
+                        // Open the edit history at the edit of the clicked line
+                        const file = view.state.field(editorInfoField, false)?.file;
+                        let editFilename: string|null = null;
+                        view.state.field(blameMarkersField).between(line.from, line.from, (from: number, to: number, marker: BlameGutterMarker) => {
+                            editFilename = marker.editFilename;
+                        });
+                        if ((file == null) || (editFilename == null)) {
+                            return false;
+                        }
+                        new EditHistoryModal(this, file, editFilename).open();
+                        return true;
+                    }
+                }
+            }),
+        ];
+    }
+
+    /**
+     * Recompute the blame gutters of the editors of the given note
+     */
+    refreshBlame(file: TFile) {
+        for (const blameViewPlugin of this.blameViewPlugins) {
+            if (blameViewPlugin.file == file) {
+                blameViewPlugin.refresh();
+            }
+        }
+    }
+
+    /**
+     * @param data current contents of the note in the editor, which may have
+     *        changes not stored yet in the edit history
+     * @return the blame gutter markers of the lines of data that are unchanged
+     *         since the most recent edit, with the edit that most recently
+     *         modified each line
+     */
+    async computeBlameMarkers(file: TFile|null, data: string): Promise<RangeSet<BlameGutterMarker>> {
+        const builder = new RangeSetBuilder<BlameGutterMarker>();
+        if ((file == null) || !this.keepEditHistoryForFile(file) || this.isBinaryFile(file)) {
+            return builder.finish();
+        }
+        const editHistory = await this.storage.open(this.getEditHistoryFilepath(file.path));
+        const filepaths = editHistory?.listEdits() || [];
+        if ((editHistory == null) || (filepaths.length == 0)) {
+            return builder.finish();
+        }
+        const { lines, edits } = await editHistory.annotateLines(filepaths[0]);
+
+        // Share the markers of the same edit
+        const markers: Map<string, BlameGutterMarker> = new Map();
+        // Terminate the last lines so they are diffed as full lines
+        const diffs = this.dmpobj.diff_lineMode(lines.join("\n") + "\n", data + "\n");
+        // Line of the most recent edit and position in data
+        let line = 0;
+        let pos = 0;
+        for (const [op, diffData] of diffs) {
+            const diffLines = diffData.split("\n");
+            // The last element is the empty string after the last carriage
+            // return
+            for (let i = 0; i < diffLines.length - 1; ++i) {
+                switch (op as number) {
+                    case DiffOp.Equal: {
+                        const editFilename = edits[line];
+                        let marker = markers.get(editFilename);
+                        if (marker === undefined) {
+                            marker = new BlameGutterMarker(editFilename, getEditStr(editHistory, editFilename));
+                            markers.set(editFilename, marker);
+                        }
+                        builder.add(pos, pos, marker);
+                        line++;
+                        pos += diffLines[i].length + 1;
+                    }
+                    break;
+                    case DiffOp.Delete:
+                        line++;
+                    break;
+                    case DiffOp.Insert:
+                        // Not stored yet, no marker
+                        pos += diffLines[i].length + 1;
+                    break;
+                }
+            }
+        }
+        return builder.finish();
+    }
+
+    /**
+     * Set the label of the given edit of the note and save the edit history
+     * file
+     *
+     * @param editFilename the edit to label, the most recent one if null
+     * @param label the label to set, null to remove the label
+     */
+    async setEditLabel(file: TFile, editFilename: string|null, label: EditLabel|null) {
+        const zipFilepath = this.getEditHistoryFilepath(file.path);
+        await this.queueEditHistoryTask(zipFilepath, async () => {
+            await this.saveEditLabel(zipFilepath, editFilename, label);
+        });
+        // Labels are shown on hover
+        this.refreshBlame(file);
+    }
+
+    /**
+     * Remove the given edits from the edit history file of the given file.
+     * The edit history file is read again once any pending edit of the file
+     * is stored, so edits stored since the given edits were listed (eg while
+     * the side panel is open) are kept
+     *
+     * @return the number of remaining edits, 0 if the edit history file was
+     *         deleted
+     */
+    async removeEdits(file: TFile, edits: string[]): Promise<number> {
+        logInfo("Removing edits", edits);
+        if (this.pendingEdits.has(file)) {
+            await this.storeEdit(file);
+        }
+        const zipFilepath = this.getEditHistoryFilepath(file.path);
+        const numEdits = await this.queueEditHistoryTask(zipFilepath, async () => {
+            return await this.storage.removeEdits(zipFilepath, edits, this.keyframeInterval);
+        });
+        this.updateStatusBar(true);
+        this.refreshBlame(file);
+        return numEdits;
+    }
+
+    /**
+     * Same as setEditLabel given the edit history filepath, without queueing
+     */
+    async saveEditLabel(zipFilepath: string, editFilename: string|null, label: EditLabel|null) {
+        const editHistory = await this.storage.open(zipFilepath);
+        if (editHistory == null) {
+            logWarn("No edit history file to label", zipFilepath);
+            return;
+        }
+        editFilename = editFilename || editHistory.listEdits()[0];
+        logInfo("Labeling edit", editFilename, label);
+        editHistory.setEditLabel(editFilename, label);
+        await this.storage.save(zipFilepath, editHistory);
+    }
+
+    async onload() {
+        // Load settings as early as possible console output is seen if enabled
+        await this.loadSettings();
+
+        logInfo("onLoad");
+
+        this.graveyard = new AdapterEditHistoryStorage(this.app.vault.adapter, GRAVEYARD_FOLDER, this.dmpobj);
+        this.graveyard.pluginVersion = this.manifest.version;
+        this.graveyard.device = this.getDeviceName();
+        // Purge once the vault is loaded, don't delay plugin loading
+        this.app.workspace.onLayoutReady(async () => {
+            await this.purgeGraveyard();
+            // Merging modifies the edit history files, don't do it without the
+            // user knowing, but let them know
+            const conflicts = await this.findConflictingEditHistoryFiles();
+            if (conflicts.length > 0) {
+                new Notice(`Found ${conflicts.length} conflicting edit history files, ` + 
+                    "invoke the command \"Merge conflicting edit history files\" to merge them");
+            }
+        });
+
+        this.registerEvent(this.app.vault.on("modify", async (fileOrFolder: TAbstractFile) => {
+            logInfo("vault modify", fileOrFolder.path);
             // This reports any files or folders modified via the api, ignore
             // non whitelisted files/folders
-            // Note if a folder is renamed each children will get a call here
-            // with the new path
-            if ((file instanceof TFolder) && (file.path == this.editHistoryRootFolder)) {
-                // The history file root folder is being renamed, update in the
-                // settings
-                
-                // XXX This may not work depending on the renaming of the
-                //     history root folder and history files vs. original notes?
-                //     But note the history edit file folder is set to "" for
-                //     the time being, so this code won't run and this is not an
-                //     issue yet
-                logInfo("Renaming history folder, updating settings from", 
-                    this.settings.editHistoryRootFolder, "to", file.path);
-                this.settings.editHistoryRootFolder = file.path;
-                this.saveSettings();
-            } 
+            if (!(this.keepEditHistoryForFile(fileOrFolder))) {
+                logDbg("Ignoring non whitelisted file", fileOrFolder.path);
+                return;
+            }
+
+            // Flag the changes as pending
+            if (fileOrFolder == this.app.workspace.getActiveFile()) {
+                this.updateStatusBar();
+            }
+
+            if (this.minMsBetweenEdits == Infinity) {
+                // Don't generate a history file when manual saving is on until
+                // it's done manually. This prevents generating empty history
+                // files for files that may never be manually saved
+                logDbg("Ignoring due to manual saving enabled")
+                return;
+            }
+
+            // Store the edit only after some idle time so modifications done
+            // in quick succession are lumped in the same edit, but edits far
+            // apart in time are never merged together.
+            // See https://github.com/antoniotejada/obsidian-edit-history/issues/9
+            const file = fileOrFolder as TFile;
+            this.scheduleEdit(file);
+
+            // The note can't be read anymore once deleted, keep the modified
+            // contents so the pending edit can be stored when the note is
+            // deleted before the idle timer expires
+            try {
+                const fileData = this.isBinaryFile(file) ? 
+                    await this.app.vault.readBinary(file) : 
+                    await this.app.vault.cachedRead(file);
+                // The edit may have been stored or canceled while reading
+                if (this.pendingEdits.has(file)) {
+                    this.pendingEditData.set(file, fileData);
+                }
+            } catch (e) {
+                logWarn("Can't read modified file", file.path, e);
+            }
+        }));
+
+        // Flush pending edits of files that are not being edited anymore,
+        // either because the leaf was closed or switched to a different file
+        this.registerEvent(this.app.workspace.on("file-open", async () => {
+            await this.flushPendingEdits();
+            this.updateStatusBar();
+        }));
+        this.registerEvent(this.app.workspace.on("layout-change", async () => {
+            await this.flushPendingEdits();
+        }));
+        
+        this.registerEvent(this.app.vault.on("rename", async (file: TAbstractFile, oldPath: string) => {
+            logInfo("vault rename path", file.path);
+            // This reports any files or folders modified via the api, ignore
+            // non whitelisted files/folders
+            // Note if a folder is renamed each children will get a call here
+            // with the new path
+            if ((file instanceof TFolder) && (oldPath == this.editHistoryRootFolder)) {
+                // The history file root folder is being renamed from the file
+                // explorer (only possible if it doesn't start with "."), the
+                // edit history files have already been moved along, update in
+                // the settings
+                logInfo("Renaming history folder, updating settings from", 
+                    this.settings.editHistoryRootFolder, "to", file.path);
+                this.settings.editHistoryRootFolder = file.path;
+                await this.saveSettings();
+                return;
+            } 
+
+            if (!(this.keepEditHistoryForFile(file))) {
+                logDbg("Ignoring non whitelisted file", file.path);
+                return;
+            }
+
+
+            // Since Obsidian will move the folder contents when a folder is
+            // moved, only move the history file when the note is renamed or
+            // moved to a different parent (or always if history files are kept
+            // in their own root folder, since that one is never moved along)
+            // Otherwise, moving the edit history file would cause Obsidian to
+            // throw a benign error when it tries to move the edit history file
+            // and finds it's not there anymore.
+            const oldFiledirs = oldPath.split("/");
+            const oldFilename = oldFiledirs.pop();
+            const oldParentFolder = (oldFiledirs.length > 0) ? oldFiledirs.pop() : "";
+            const filedirs = file.path.split("/");
+            const filename = filedirs.pop();
+            const parentFolder = (filedirs.length > 0) ? filedirs.pop() : "";
+            if ((this.settings.editHistoryRootFolder == "") && 
+                ((oldParentFolder == parentFolder) && (oldFilename == filename))) {
+                logDbg("Not moving edit history, expected to be moved later alongside parent folder");
+                return;
+            }
+
+            // Don't let the pending edit be stored while renaming, the note
+            // has the new path already but the edit history file doesn't yet.
+            // Store it once renamed instead
+            const isPending = (file instanceof TFile) && this.cancelPendingEdit(file);
+
+            // Rename the edit history file if any, once the edits being stored
+            // at the old path are done, otherwise they would recreate the edit
+            // history file at the old path
+            const zipFilepath = this.getEditHistoryFilepath(oldPath);
+            await this.queueEditHistoryTask(zipFilepath, async () => {
+                if (await this.storage.existsHistoryFile(zipFilepath)) {
+                    const newZipFilepath = this.getEditHistoryFilepath(file.path);
+                    logInfo("Renaming edit history file", zipFilepath,"to", newZipFilepath);
+                    await this.storage.renameHistoryFile(zipFilepath, newZipFilepath);
+                }
+            });
+
+            if (isPending) {
+                await this.storeEdit(file as TFile).catch((e) => {
+                    logError("Can't store edit of", file.path, e);
+                });
+            }
+        }));
+
+        this.registerEvent(this.app.vault.on("delete", async (file: TAbstractFile) => {
+            logInfo("vault delete path", file.path);
+            // This reports any files or folders modified via the api, ignore
+            // non whitelisted files/folders
+            if (!(this.keepEditHistoryForFile(file))) {
+                logDbg("Ignoring non whitelisted file", file.path);
+                return;
+            }
+            // Store any pending edit from the contents at the last
+            // modification, the note can't be read anymore
+            const fileData = this.pendingEditData.get(file as TFile);
+            this.cancelPendingEdit(file as TFile);
+            let zipFilepath = this.getEditHistoryFilepath(file.path);
+            if (fileData !== undefined) {
+                logInfo("Storing pending edit of deleted file", file.path);
+                try {
+                    await this.queueEditHistoryTask(zipFilepath, async () => {
+                        await this.storage.storeEdit(zipFilepath, fileData, (file as TFile).stat.mtime, this);
+                    });
+                } catch (e) {
+                    logError("Can't store edit of", file.path, e);
+                }
+            }
+            // Keep the edit history file if any in the graveyard so the note
+            // can be recovered
+            if (await this.storage.existsHistoryFile(zipFilepath)) {
+                await this.buryEditHistoryFile(file.path, zipFilepath);
+            }
+        }));
+
+        // XXX Use notices for some information/error messages
+
+        // The ribbon can be disabled from Obsidian UI, no need to check for a
+        // specific disable here
+        const ribbonIconEl = this.addRibbonIcon("clock", "Open edit history", (evt: MouseEvent) => {
+            if (this.keepEditHistoryForActiveFile()) {
+                new EditHistoryModal(this).open();
+            }
+        });
+
+        const statusBarItemEl = this.addStatusBarItem();
+        // Add the highlight on hover of other status bar items
+        statusBarItemEl.addClass("mod-clickable");
+        this.statusBarItemEl = statusBarItemEl;
+        const plugin = this;
+        statusBarItemEl.onclick = function () {
+            if (plugin.keepEditHistoryForActiveFile()) {
+                new EditHistoryModal(plugin).open();
+            }
+        }; 
+        
+        this.statusBarItemEl.toggle(this.settings.showOnStatusBar);
+        this.app.workspace.onLayoutReady(() => {
+            this.updateStatusBar();
+        });
+        
+        this.addCommand({
+            id: "open-edit-history",
+            name: "Open edit history for this file",
+            checkCallback: (checking: boolean) => {
+                if (this.keepEditHistoryForActiveFile()) {
+                    if (!checking) {
+                        new EditHistoryModal(this).open();
+                    }
+                    return true;
+                } 
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: "save-edit-history",
+            name: "Save current edit in the edit history",
+            checkCallback: (checking: boolean) => {
+                if (this.keepEditHistoryForActiveFile()) {
+                    if (!checking) {
+                        logInfo("Forcing storing edit");
+                        this.storeEdit(this.app.workspace.getActiveFile() as TFile);
+                    }
+                    return true;
+                } 
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: "save-edit-history-with-message",
+            name: "Save current edit in the edit history with a message",
+            checkCallback: (checking: boolean) => {
+                if (this.keepEditHistoryForActiveFile()) {
+                    if (!checking) {
+                        const file = this.app.workspace.getActiveFile() as TFile;
+                        new EditLabelModal(this.app, "Save edit with message", null, async (label: EditLabel|null) => {
+                            logInfo("Forcing storing edit with label", label);
+                            await this.storeEdit(file, label);
+                        }).open();
+                    }
+                    return true;
+                } 
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: "recover-deleted-note",
+            name: "Recover deleted note",
+            callback: async () => {
+                const graveyardFilepaths = await this.graveyard.listHistoryFiles();
+                if (graveyardFilepaths.length == 0) {
+                    new Notice("No deleted notes to recover");
+                    return;
+                }
+                new RecoverDeletedNoteModal(this, graveyardFilepaths).open();
+            }
+        });
+
+        this.registerView(VIEW_TYPE_EDIT_HISTORY_STATS, (leaf: WorkspaceLeaf) => new EditHistoryStatsView(leaf, this));
+        this.registerView(VIEW_TYPE_EDIT_HISTORY, (leaf: WorkspaceLeaf) => new EditHistoryView(leaf, this));
+
+        this.registerEditorExtension(this.editorExtensions);
+        this.updateEditorExtensions();
+
+        this.addCommand({
+            id: "open-edit-history-panel",
+            name: "Open edit history side panel",
+            callback: () => {
+                this.activateView(VIEW_TYPE_EDIT_HISTORY, true);
+            }
+        });
+
+        this.addCommand({
+            id: "open-edit-history-stats",
+            name: "Open edit history statistics",
+            callback: () => {
+                this.activateView(VIEW_TYPE_EDIT_HISTORY_STATS);
+            }
+        });
+
+        this.addCommand({
+            id: "search-edit-history",
+            name: "Search all versions of notes",
+            callback: () => {
+                new SearchEditHistoryModal(this).open();
+            }
+        });
+
+        this.addCommand({
+            id: "export-edit-history",
+            name: "Export edit history as git fast-import stream or files",
+            callback: () => {
+                new ExportEditHistoryModal(this).open();
+            }
+        });
+
+        this.addCommand({
+            id: "merge-conflicting-edit-history-files",
+            name: "Merge conflicting edit history files",
+            callback: () => {
+                this.mergeConflictingEditHistoryFiles();
+            }
+        });
+
+        this.addCommand({
+            id: "find-orphaned-edit-history-files",
+            name: "Find orphaned edit history files",
+            callback: () => {
+                new OrphanedEditHistoryFilesModal(this).open();
+            }
+        });
+
+        this.addCommand({
+            id: "move-edit-history-files",
+            name: "Move edit history files to a different folder",
+            callback: () => {
+                new MoveEditHistoryFilesModal(this).open();
+            }
+        });
+
+
+        this.addSettingTab(new EditHistorySettingTab(this.app, this));
+    }
+
+    onunload() {
+        logInfo("unload");
+        // Don't lose the edits that haven't been stored yet. Note this can't
+        // be awaited since onunload is synchronous, so it may not complete if
+        // the app is being closed (errors are logged by flushPendingEdits)
+        this.flushPendingEdits(true);
+    }
+}
+
+/**
+ * Blame gutter marker with the date of the edit that most recently modified
+ * a line
+ */
+class BlameGutterMarker extends GutterMarker {
+    editFilename: string;
+    // Full date and label of the edit, shown on hover
+    title: string;
+
+    constructor(editFilename: string, title: string) {
+        super();
+        this.editFilename = editFilename;
+        this.title = title;
+    }
+
+    eq(other: GutterMarker): boolean {
+        return (other instanceof BlameGutterMarker) && 
+            (other.editFilename == this.editFilename) && (other.title == this.title);
+    }
+
+    toDOM(): Node {
+        return createDiv({ 
+            text: getEditDate(this.editFilename).toLocaleDateString(), 
+            attr: { title: this.title } 
+        });
+    }
+}
+
+// Replaces the blame gutter markers of an editor
+const setBlameMarkersEffect = StateEffect.define<RangeSet<BlameGutterMarker>>();
+
+// Blame gutter markers of an editor. They are mapped through the changes done
+// in the editor so they stay on their lines until they are recomputed
+const blameMarkersField = StateField.define<RangeSet<BlameGutterMarker>>({
+    create: () => RangeSet.empty,
+    update: (markers, transaction) => {
+        for (const effect of transaction.effects) {
+            if (effect.is(setBlameMarkersEffect)) {
+                return effect.value;
+            }
+        }
+        return markers.map(transaction.changes);
+    }
+});
+
+/**
+ * Computes the blame gutter markers of an editor when a note is opened in it
+ * and after each stored edit of the note, not while typing since annotating
+ * the lines needs to go through the edit history
+ */
+class BlameViewPlugin {
+    view: EditorView;
+    plugin: EditHistory;
+    // Note in the editor, null if none
+    file: TFile|null = null;
+    // Incremented on every refresh, so only the most recent refresh sets the
+    // markers
+    refreshId = 0;
+    // Changes done in the editor since the most recent refresh started, so
+    // the computed markers can be mapped to the current contents
+    pendingChanges: ChangeSet;
+    destroyed = false;
+
+    constructor(view: EditorView, plugin: EditHistory) {
+        this.view = view;
+        this.plugin = plugin;
+        this.plugin.blameViewPlugins.add(this);
+        this.refresh();
+    }
+
+    update(update: ViewUpdate) {
+        if (update.docChanged) {
+            this.pendingChanges = this.pendingChanges.compose(update.changes);
+        }
+        // The editor is reused when opening another note in the same tab
+        if ((update.state.field(editorInfoField, false)?.file || null) != this.file) {
+            this.refresh();
+        }
+    }
+
+    destroy() {
+        this.destroyed = true;
+        this.plugin.blameViewPlugins.delete(this);
+    }
+
+    async refresh() {
+        const refreshId = ++this.refreshId;
+        this.file = this.view.state.field(editorInfoField, false)?.file || null;
+        const doc = this.view.state.doc;
+        this.pendingChanges = ChangeSet.empty(doc.length);
+        // Note this always awaits before dispatching, dispatching is not
+        // allowed while the editor is updating, which is the case when called
+        // from update()
+        const markers = await this.plugin.computeBlameMarkers(this.file, doc.toString());
+        if (this.destroyed || (refreshId != this.refreshId)) {
+            return;
+        }
+        this.view.dispatch({ effects: setBlameMarkersEffect.of(markers.map(this.pendingChanges)) });
+    }
+}
+
+class MoveEditHistoryFilesModal extends Modal {
+    plugin: EditHistory;
+    onMoved: () => void;
+
+    constructor(plugin: EditHistory, onMoved: () => void = () => {}) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.onMoved = onMoved;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.titleEl.setText("Move edit history files");
+        contentEl.createEl("p", { text: 
+            "Folder to move all the edit history files to, keeping the folder structure of the notes. " +
+            "Leave empty to move the edit history files alongside their notes. " +
+            "Folders starting with \".\" are hidden from the file explorer."
+        });
+        const control = contentEl.createDiv("setting-item-control");
+        const folderText = new TextComponent(control)
+            .setPlaceholder("Alongside notes")
+            .setValue(this.plugin.settings.editHistoryRootFolder);
+        new ButtonComponent(control)
+            .setButtonText("Move")
+            .setCta()
+            .onClick(async () => {
+                await this.plugin.moveEditHistoryFiles(folderText.getValue());
+                this.close();
+                this.onMoved();
+            });
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
+
+interface EditHistorySearchResult {
+    file: TFile;
+    editFilename: string;
+    // Text around the match, split so the match can be highlighted
+    before: string;
+    match: string;
+    after: string;
+}
+
+interface EditHistoryFileStats {
+    historyFilepath: string;
+    // Note filepath, the note may not exist if the edit history file is
+    // orphaned
+    filepath: string;
+    folder: string;
+    numEdits: number;
+    // UTC epoch in milliseconds of the oldest and newest edits, 0 if no edits
+    oldestEpoch: number;
+    newestEpoch: number;
+    size: number;
+    // Size of the note, null if the note doesn't exist
+    noteSize: number|null;
+}
+
+/**
+ * View with the statistics of all the edit history files in the vault,
+ * grouped by folder
+ */
+class EditHistoryStatsView extends ItemView {
+    plugin: EditHistory;
+    stats: EditHistoryFileStats[] = [];
+    sortColumn: keyof EditHistoryFileStats = "filepath";
+    sortAscending = true;
+
+    constructor(leaf: WorkspaceLeaf, plugin: EditHistory) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_EDIT_HISTORY_STATS;
+    }
+
+    getDisplayText(): string {
+        return "Edit history statistics";
+    }
+
+    getIcon(): string {
+        return "clock";
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Collect the statistics of all the edit history files and render them
+     */
+    async refresh() {
+        const {contentEl} = this;
+        contentEl.empty();
+        contentEl.addClass("edit-history-stats");
+        const statusEl = contentEl.createEl("p", { text: "Collecting edit history statistics..." });
+        
+        this.stats = [];
+        const historyFilepaths = await this.plugin.storage.listHistoryFiles();
+        for (const historyFilepath of historyFilepaths) {
+            const filepath = this.plugin.getNoteFilepath(historyFilepath);
+            const editHistory = await this.plugin.storage.open(historyFilepath);
+            if ((filepath == null) || (editHistory == null)) {
+                continue;
+            }
+            const filepaths = editHistory.listEdits();
+            const file = this.app.vault.getAbstractFileByPath(filepath);
+            this.stats.push({
+                historyFilepath: historyFilepath,
+                filepath: filepath,
+                folder: filepath.substring(0, filepath.lastIndexOf("/")) || "/",
+                numEdits: filepaths.length,
+                oldestEpoch: (filepaths.length > 0) ? getEditEpoch(filepaths[filepaths.length-1]) : 0,
+                newestEpoch: (filepaths.length > 0) ? getEditEpoch(filepaths[0]) : 0,
+                size: editHistory.size,
+                noteSize: (file instanceof TFile) ? file.stat.size : null,
+            });
+            statusEl.setText(`Collecting edit history statistics ${this.stats.length}/${historyFilepaths.length}`);
+        }
+        statusEl.remove();
+        this.render();
+    }
+
+    render() {
+        const {contentEl} = this;
+        contentEl.empty();
+
+        const control = contentEl.createDiv("setting-item-control");
+        new ButtonComponent(control)
+            .setButtonText("Refresh")
+            .onClick(() => this.refresh());
+
+        const columns: [keyof EditHistoryFileStats, string][] = [
+            ["filepath", "Note"],
+            ["numEdits", "Edits"],
+            ["oldestEpoch", "Oldest edit"],
+            ["newestEpoch", "Newest edit"],
+            ["size", "Size"],
+            ["noteSize", "Size vs note"],
+        ];
+        const table = contentEl.createEl("table");
+        const headerRow = table.createEl("thead").createEl("tr");
+        for (const [column, title] of columns) {
+            const th = headerRow.createEl("th", { 
+                text: title + ((column == this.sortColumn) ? (this.sortAscending ? " ▲" : " ▼") : "") 
+            });
+            th.addEventListener("click", () => {
+                // Clicking on the sorted column toggles the order
+                this.sortAscending = (column == this.sortColumn) ? !this.sortAscending : true;
+                this.sortColumn = column;
+                this.render();
+            });
+        }
+        headerRow.createEl("th");
+
+        const sign = this.sortAscending ? 1 : -1;
+        const stats = this.stats.slice().sort((a, b) => {
+            // Always group by folder, sort by the column inside the folder
+            if (a.folder != b.folder) {
+                return a.folder.localeCompare(b.folder);
+            }
+            let aValue = a[this.sortColumn];
+            let bValue = b[this.sortColumn];
+            if (this.sortColumn == "noteSize") {
+                // Sort by the relative size, which is the one displayed
+                aValue = a.size / (a.noteSize || Infinity);
+                bValue = b.size / (b.noteSize || Infinity);
+            }
+            if ((typeof aValue == "string") && (typeof bValue == "string")) {
+                return sign * aValue.localeCompare(bValue);
+            }
+            return sign * ((aValue as number) - (bValue as number));
+        });
+        
+        const tbody = table.createEl("tbody");
+        const renderTotalsRow = (title: string, groupStats: EditHistoryFileStats[], cls: string) => {
+            const row = tbody.createEl("tr", { cls: cls });
+            row.createEl("td", { text: title });
+            row.createEl("td", { text: groupStats.reduce((total, s) => total + s.numEdits, 0).toString() });
+            const epochs = groupStats.filter(s => s.numEdits > 0);
+            row.createEl("td", { text: (epochs.length == 0) ? "" : 
+                new Date(Math.min(...epochs.map(s => s.oldestEpoch))).toLocaleString() });
+            row.createEl("td", { text: (epochs.length == 0) ? "" : 
+                new Date(Math.max(...epochs.map(s => s.newestEpoch))).toLocaleString() });
+            const size = groupStats.reduce((total, s) => total + s.size, 0);
+            const noteSize = groupStats.reduce((total, s) => total + (s.noteSize || 0), 0);
+            row.createEl("td", { text: formatSize(size) });
+            row.createEl("td", { text: (noteSize == 0) ? "" : `${Math.round(100 * size / noteSize)}%` });
+            row.createEl("td");
+        };
+        
+        let i = 0;
+        while (i < stats.length) {
+            const folder = stats[i].folder;
+            let j = i;
+            while ((j < stats.length) && (stats[j].folder == folder)) {
+                j++;
+            }
+            const folderStats = stats.slice(i, j);
+            renderTotalsRow(folder, folderStats, "edit-history-stats-folder");
+            for (const s of folderStats) {
+                const row = tbody.createEl("tr");
+                const nameCell = row.createEl("td");
+                const file = this.app.vault.getAbstractFileByPath(s.filepath);
+                if (file instanceof TFile) {
+                    const link = nameCell.createEl("a", { text: file.name, title: "Open edit history" });
+                    link.addEventListener("click", () => {
+                        new EditHistoryModal(this.plugin, file).open();
+                    });
+                } else {
+                    nameCell.createEl("span", { text: s.filepath.slice(s.filepath.lastIndexOf("/") + 1) + " (no note)" });
+                }
+                row.createEl("td", { text: s.numEdits.toString() });
+                row.createEl("td", { text: (s.numEdits == 0) ? "" : new Date(s.oldestEpoch).toLocaleString() });
+                row.createEl("td", { text: (s.numEdits == 0) ? "" : new Date(s.newestEpoch).toLocaleString() });
+                row.createEl("td", { text: formatSize(s.size) });
+                row.createEl("td", { text: (!s.noteSize) ? "" : `${Math.round(100 * s.size / s.noteSize)}%` });
+                new ButtonComponent(row.createEl("td"))
+                    .setButtonText("Purge")
+                    .setWarning()
+                    .onClick(() => {
+                        new ConfirmModal(this.app,
+                            "Remove the edit history of " + s.filepath + "?",
+                            "Purge",
+                            async () => {
+                                await this.plugin.removeEditHistoryFile(this.plugin.storage, s.historyFilepath);
+                                this.stats.remove(s);
+                                this.render();
+                            }
+                        ).open();
+                    });
+            }
+            i = j;
+        }
+        renderTotalsRow(`Total (${stats.length} edit history files)`, stats, "edit-history-stats-total");
+    }
+}
+
+class OrphanedEditHistoryFilesModal extends Modal {
+    plugin: EditHistory;
+
+    constructor(plugin: EditHistory) {
+        super(plugin.app);
+        this.plugin = plugin;
+    }
+
+    async onOpen() {
+        const {contentEl} = this;
+        this.titleEl.setText("Orphaned edit history files");
+        const statusEl = contentEl.createEl("p", { text: "Looking for orphaned edit history files..." });
+
+        // Make sure pending edits don't create edit history files while
+        // scanning
+        await this.plugin.flushPendingEdits(true);
+        const orphans = await this.plugin.findOrphanedEditHistoryFiles();
+        if (orphans.length == 0) {
+            statusEl.setText("No orphaned edit history files found.");
+            return;
+        }
+        statusEl.setText(`Found ${orphans.length} edit history files with no note. ` + 
+            "Reattach them to the suggested note, delete them, or export a file per edit to " + EXPORT_FOLDER + ".");
+
+        // Notes with an edit history file can't be the match of an orphan
+        const candidates: TFile[] = [];
+        for (const file of this.app.vault.getFiles()) {
+            if (this.plugin.keepEditHistoryForFile(file) && 
+                !await this.plugin.storage.existsHistoryFile(this.plugin.getEditHistoryFilepath(file.path))) {
+                candidates.push(file);
+            }
+        }
+        const lineSets = new Map<string, Set<string>>();
+        for (const historyFilepath of orphans) {
+            const setting = new Setting(contentEl)
+                .setName(historyFilepath)
+                .setDesc("Looking for a matching note...");
+            const match = await this.plugin.findOrphanMatch(historyFilepath, candidates, lineSets);
+            setting.setDesc((match == null) ? "No matching note found" : "Likely note: " + match.path);
+            if (match != null) {
+                setting.addButton(button => button
+                    .setButtonText("Reattach")
+                    .setCta()
+                    .onClick(async () => {
+                        const newHistoryFilepath = this.plugin.getEditHistoryFilepath(match.path);
+                        logInfo("Reattaching", historyFilepath, "to", newHistoryFilepath);
+                        await this.plugin.storage.renameHistoryFile(historyFilepath, newHistoryFilepath);
+                        // The note is not a candidate anymore
+                        candidates.remove(match);
+                        new Notice("Reattached edit history to " + match.path);
+                        setting.settingEl.remove();
+                    }));
+            }
+            setting.addButton(button => button
+                .setButtonText("Export")
+                .onClick(async () => {
+                    // The note scope matches the orphan only, since no other
+                    // edit history file can be at the same note filepath
+                    try {
+                        const exportFilepath = await this.plugin.exportEditHistory(
+                            this.plugin.getNoteFilepath(historyFilepath) as string, 
+                            ExportFormat.TimestampedFiles, EXPORT_FOLDER);
+                        new Notice("Exported edit history to " + exportFilepath);
+                    } catch (error) {
+                        logError("Error exporting edit history", historyFilepath, error);
+                        new Notice("Error exporting edit history: " + error);
+                    }
+                }));
+            setting.addButton(button => button
+                .setButtonText("Delete")
+                .setWarning()
+                .onClick(() => {
+                    new ConfirmModal(this.app, 
+                        "Delete the edit history file " + historyFilepath + "?", 
+                        "Delete",
+                        async () => {
+                            await this.plugin.removeEditHistoryFile(this.plugin.storage, historyFilepath);
+                            setting.settingEl.remove();
+                        }
+                    ).open();
+                }));
+        }
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
+
+class RecoverDeletedNoteModal extends FuzzySuggestModal<string> {
+    plugin: EditHistory;
+    graveyardFilepaths: string[];
+
+    constructor(plugin: EditHistory, graveyardFilepaths: string[]) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.graveyardFilepaths = graveyardFilepaths;
+        this.setPlaceholder("Deleted note to recover");
+    }
+
+    getItems(): string[] {
+        // Most recently deleted first
+        return this.graveyardFilepaths.slice().sort((a, b) => 
+            (this.plugin.parseGraveyardFilepath(b)?.deletedMs || 0) - 
+            (this.plugin.parseGraveyardFilepath(a)?.deletedMs || 0));
+    }
+
+    getItemText(graveyardFilepath: string): string {
+        const parsed = this.plugin.parseGraveyardFilepath(graveyardFilepath);
+        if (parsed == null) {
+            return graveyardFilepath;
+        }
+        return `${parsed.filepath} (deleted ${new Date(parsed.deletedMs).toLocaleString()})`;
+    }
 
-            if (!(this.keepEditHistoryForFile(file))) {
-                logDbg("Ignoring non whitelisted file", file.path);
-                return;
-            }
+    onChooseItem(graveyardFilepath: string) {
+        this.plugin.recoverDeletedNote(graveyardFilepath);
+    }
+}
 
+/**
+ * Modal to search a text in all the versions of a note, the notes in a folder
+ * or the whole vault
+ */
+class SearchEditHistoryModal extends Modal {
+    plugin: EditHistory;
+    // Incremented on every search so a search in progress stops when a new
+    // one starts or the modal is closed
+    searchId = 0;
 
-            // Since Obsidian will move the folder contents when a folder is
-            // moved, only move the history file when the note is renamed or
-            // moved to a different parent (or if history files are kept in
-            // their own directory)
-            // Otherwise, moving the edit history file would cause Obsidian to
-            // throw a benign error when it tries to move the edit history file
-            // and finds it's not there anymore.
-            const oldFiledirs = oldPath.split("/");
-            const oldFilename = oldFiledirs.pop();
-            const oldParentFolder = (oldFiledirs.length > 0) ? oldFiledirs.pop() : "";
-            const filedirs = file.path.split("/");
-            const filename = filedirs.pop();
-            const parentFolder = (filedirs.length > 0) ? filedirs.pop() : "";
-            if ((this.settings.editHistoryRootFolder == "") && 
-                ((oldParentFolder == parentFolder) && (oldFilename == filename))) {
-                logDbg("Not moving edit history, expected to be moved later alongside parent folder");
-                return;
-            }
+    constructor(plugin: EditHistory) {
+        super(plugin.app);
+        this.plugin = plugin;
+    }
 
-            // Rename the edit history file if any
-            let zipFilepath = this.getEditHistoryFilepath(oldPath);
-            let zipFile = this.app.vault.getAbstractFileByPath(zipFilepath);
-            if (zipFile != null) {
-                let newZipFilepath = this.getEditHistoryFilepath(file.path);
-                logInfo("Renaming edit history file", zipFilepath,"to", newZipFilepath);
-                this.app.vault.rename(zipFile, newZipFilepath);
-            }
-        }));
+    onOpen() {
+        const {contentEl} = this;
+        this.titleEl.setText("Search all versions");
+        contentEl.addClass("edit-history-search");
 
-        this.registerEvent(this.app.vault.on("delete", (file: TAbstractFile) => {
-            logInfo("vault delete path", file.path);
-            // This reports any files or folders modified via the api, ignore
-            // non whitelisted files/folders
-            if (!(this.keepEditHistoryForFile(file))) {
-                logDbg("Ignoring non whitelisted file", file.path);
+        const activeFile = this.app.workspace.getActiveFile();
+        let query = "";
+        let matchCase = false;
+        let scope = "";
+        const search = () => {
+            this.search(query, matchCase, scope, resultsDiv);
+        };
+
+        new Setting(contentEl)
+            .setName("Text")
+            .addText(text => {
+                text.setPlaceholder("Text to search")
+                    .onChange((value) => {
+                        query = value;
+                    });
+                text.inputEl.addEventListener("keydown", (event: KeyboardEvent) => {
+                    if (event.key === "Enter") {
+                        event.preventDefault();
+                        search();
+                    }
+                });
+                text.inputEl.focus();
+            });
+        new Setting(contentEl)
+            .setName("Search in")
+            .addDropdown(dropdown => {
+                // The vault is the empty scope, matching every note filepath
+                dropdown.addOption("", "Whole vault");
+                if (activeFile != null) {
+                    if ((activeFile.parent != null) && !activeFile.parent.isRoot()) {
+                        dropdown.addOption(activeFile.parent.path + "/", "Folder " + activeFile.parent.path);
+                    }
+                    dropdown.addOption(activeFile.path, "Note " + activeFile.path);
+                }
+                dropdown.onChange((value) => {
+                    scope = value;
+                });
+            })
+            .addToggle(toggle => toggle
+                .setTooltip("Match case")
+                .onChange((value) => {
+                    matchCase = value;
+                }))
+            .addButton(button => button
+                .setButtonText("Search")
+                .setCta()
+                .onClick(search));
+        const resultsDiv = contentEl.createDiv();
+    }
+
+    /**
+     * Search the query in the notes in the scope (see isFilepathInScope), and
+     * list the results in resultsDiv
+     */
+    async search(query: string, matchCase: boolean, scope: string, resultsDiv: HTMLElement) {
+        const searchId = ++this.searchId;
+        resultsDiv.empty();
+        if (query == "") {
+            return;
+        }
+        logInfo("Searching", query, "in", scope);
+        // Make sure the latest edits are searched too
+        await this.plugin.flushPendingEdits(true);
+
+        const statusEl = resultsDiv.createEl("p", { text: "Searching..." });
+        const files = this.app.vault.getFiles().filter((file: TFile) => 
+            isFilepathInScope(file.path, scope) && this.plugin.keepEditHistoryForFile(file));
+        let numResults = 0;
+        for (let i = 0; (i < files.length) && (numResults < MAX_SEARCH_RESULTS); ++i) {
+            const results = await this.plugin.searchEditHistory(files[i], query, matchCase);
+            if (searchId != this.searchId) {
+                // A new search started or the modal was closed
                 return;
             }
-            // Delete the edit history file if any
-            let zipFilepath = this.getEditHistoryFilepath(file.path);
-            let zipFile = this.app.vault.getAbstractFileByPath(zipFilepath);
-            if (zipFile != null) {
-                logInfo("Deleting edit history file", zipFilepath);
-                // XXX Should this trash instead of delete? (the Obsidian
-                //     setting under Files and Links allows choosing between
-                //     system trash, obsidian trash and delete)
-                this.app.vault.delete(zipFile);
+            for (const result of results.slice(0, MAX_SEARCH_RESULTS - numResults)) {
+                this.renderResult(resultsDiv, result);
             }
-        }));
-
-        // XXX Use notices for some information/error messages
+            numResults += results.length;
+            statusEl.setText(`Searching ${i + 1}/${files.length} notes, ${numResults} results`);
+        }
+        statusEl.setText((numResults == 0) ? "No results" : 
+            (numResults >= MAX_SEARCH_RESULTS) ? `Showing the first ${MAX_SEARCH_RESULTS} results` : 
+            `${numResults} results`);
+    }
 
-        // The ribbon can be disabled from Obsidian UI, no need to check for a
-        // specific disable here
-        const ribbonIconEl = this.addRibbonIcon("clock", "Open edit history", (evt: MouseEvent) => {
-            if (this.keepEditHistoryForActiveFile()) {
-                new EditHistoryModal(this).open();
-            }
+    renderResult(resultsDiv: HTMLElement, result: EditHistorySearchResult) {
+        const resultDiv = resultsDiv.createDiv("edit-history-search-result");
+        resultDiv.createDiv({ 
+            text: result.file.path + " " + getEditLocalDateStr(result.editFilename),
+            cls: "edit-history-search-result-title",
         });
-
-        const statusBarItemEl = this.addStatusBarItem();
-        statusBarItemEl.setText("? edits");
-        // Add the highlight on hover of other status bar items
-        statusBarItemEl.addClass("mod-clickable");
-        this.statusBarItemEl = statusBarItemEl;
-        const plugin = this;
-        statusBarItemEl.onclick = function () {
-            if (plugin.keepEditHistoryForActiveFile()) {
-                new EditHistoryModal(plugin).open();
-            }
-        }; 
-        
-        this.statusBarItemEl.toggle(this.settings.showOnStatusBar);
-        
-        this.addCommand({
-            id: "open-edit-history",
-            name: "Open edit history for this file",
-            checkCallback: (checking: boolean) => {
-                if (this.keepEditHistoryForActiveFile()) {
-                    if (!checking) {
-                        new EditHistoryModal(this).open();
-                    }
-                    return true;
-                } 
-                return false;
-            }
+        const snippetDiv = resultDiv.createDiv("edit-history-search-result-snippet");
+        snippetDiv.appendText(result.before);
+        snippetDiv.createEl("mark", { text: result.match });
+        snippetDiv.appendText(result.after);
+        resultDiv.addEventListener("click", () => {
+            this.close();
+            new EditHistoryModal(this.plugin, result.file, result.editFilename).open();
         });
+    }
 
-        this.addCommand({
-            id: "save-edit-history",
-            name: "Save current edit in the edit history",
-            checkCallback: (checking: boolean) => {
-                if (this.keepEditHistoryForActiveFile()) {
-                    if (!checking) {
-                        logInfo("Forcing storing edit");
-                        this.app.vault.trigger("modify", this.app.workspace.getActiveFile(), true);
+    onClose() {
+        // Stop any search in progress
+        this.searchId++;
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
+
+class ExportEditHistoryModal extends Modal {
+    plugin: EditHistory;
+
+    constructor(plugin: EditHistory) {
+        super(plugin.app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        this.titleEl.setText("Export edit history");
+
+        const activeFile = this.app.workspace.getActiveFile();
+        let scope = (activeFile != null) ? activeFile.path : "";
+        let format = ExportFormat.GitFastImport;
+        let folder = EXPORT_FOLDER;
+
+        new Setting(contentEl)
+            .setName("Export")
+            .addDropdown(dropdown => {
+                // The vault is the empty scope, matching every note filepath
+                if (activeFile != null) {
+                    dropdown.addOption(activeFile.path, "Note " + activeFile.path);
+                    if ((activeFile.parent != null) && !activeFile.parent.isRoot()) {
+                        dropdown.addOption(activeFile.parent.path + "/", "Folder " + activeFile.parent.path);
                     }
-                    return true;
-                } 
-                return false;
-            }
-        });
+                }
+                dropdown.addOption("", "Whole vault");
+                dropdown.setValue(scope);
+                dropdown.onChange((value) => {
+                    scope = value;
+                });
+            });
+        new Setting(contentEl)
+            .setName("Format")
+            .setDesc("Import the stream into a new git repository with " + 
+                "\"git init && git fast-import < file && git checkout main\". " + 
+                "Each edit is a commit with the date of the edit.")
+            .addDropdown(dropdown => {
+                for (const key in exportFormatToString) {
+                    dropdown.addOption(key, exportFormatToString[key as ExportFormat]);
+                }
+                dropdown.setValue(format);
+                dropdown.onChange((value) => {
+                    format = value as ExportFormat;
+                });
+            });
+        new Setting(contentEl)
+            .setName("Folder")
+            .setDesc("Vault folder to export to, folders starting with \".\" are not indexed by Obsidian")
+            .addText(text => text
+                .setPlaceholder(EXPORT_FOLDER)
+                .setValue(folder)
+                .onChange((value) => {
+                    folder = value;
+                }));
+        const statusEl = contentEl.createEl("p");
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Export")
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    try {
+                        const exportFilepath = await this.plugin.exportEditHistory(scope, format, 
+                            folder.trim() || EXPORT_FOLDER, (done: number, total: number) => {
+                                statusEl.setText(`Exported ${done}/${total} edit history files`);
+                            });
+                        new Notice("Exported edit history to " + exportFilepath);
+                        this.close();
+                    } catch (error) {
+                        logError("Error exporting edit history", error);
+                        statusEl.setText("Error exporting edit history: " + error);
+                        button.setDisabled(false);
+                    }
+                }));
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
 
+/**
+ * Modal to enter the label and message of an edit
+ */
+class EditLabelModal extends Modal {
+    title: string;
+    editLabel: EditLabel|null;
+    onSubmit: (label: EditLabel|null) => void;
 
-        this.addSettingTab(new EditHistorySettingTab(this.app, this));
+    /**
+     * @param onSubmit called with the entered label, null if both the label
+     *        and the message are empty
+     */
+    constructor(app: App, title: string, editLabel: EditLabel|null, onSubmit: (label: EditLabel|null) => void) {
+        super(app);
+        this.title = title;
+        this.editLabel = editLabel;
+        this.onSubmit = onSubmit;
     }
 
-    onunload() {
-        logInfo("unload");
+    onOpen() {
+        const {contentEl} = this;
+        this.titleEl.setText(this.title);
+        let label = this.editLabel?.label || "";
+        let message = this.editLabel?.message || "";
+        new Setting(contentEl)
+            .setName("Label")
+            .setDesc("Short name of the edit, eg \"sent to reviewer\"")
+            .addText(text => text
+                .setValue(label)
+                .onChange((value) => {
+                    label = value;
+                }));
+        new Setting(contentEl)
+            .setName("Message")
+            .setDesc("Description of the edit")
+            .addTextArea(text => text
+                .setValue(message)
+                .onChange((value) => {
+                    message = value;
+                }));
+        const control = contentEl.createDiv("setting-item-control");
+        new ButtonComponent(control)
+            .setButtonText("Cancel")
+            .onClick(() => {
+                this.close();
+            });
+        new ButtonComponent(control)
+            .setButtonText("Save")
+            .setCta()
+            .onClick(() => {
+                this.close();
+                label = label.trim();
+                message = message.trim();
+                this.onSubmit(((label == "") && (message == "")) ? null : { label: label, message: message });
+            });
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
     }
 }
 
-class EditHistoryModal extends Modal { 
+class ConfirmModal extends Modal {
+    message: string;
+    buttonText: string;
+    onConfirm: () => void;
+
+    constructor(app: App, message: string, buttonText: string, onConfirm: () => void) {
+        super(app);
+        this.message = message;
+        this.buttonText = buttonText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        contentEl.createEl("p", { text: this.message });
+        const control = contentEl.createDiv("setting-item-control");
+        new ButtonComponent(control)
+            .setButtonText("Cancel")
+            .onClick(() => {
+                this.close();
+            });
+        new ButtonComponent(control)
+            .setButtonText(this.buttonText)
+            .setWarning()
+            .onClick(() => {
+                this.close();
+                this.onConfirm();
+            });
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
+
+/**
+ * Calendar, edit drop downs and diff of the edit history of a note, displayed
+ * by the edit history modal and the edit history side panel
+ */
+class EditHistoryPanel { 
     plugin: EditHistory;
-    currentVersionData: string;
+    app: App;
+    contentEl: HTMLElement;
+    titleEl: HTMLElement;
+    // Note to show the edit history of, the active file if null
+    file: TFile|null;
+    // Edit to select when rendering, the most recent if null. Updated with
+    // the selected edit so it's kept when rendering again
+    edit: string|null;
+    // Focus the edit drop down when rendering
+    focus: boolean;
+    // Called when the contents displayed are no longer valid, eg after
+    // restoring an edit
+    onDone: () => void;
+    currentVersionData: string|ArrayBuffer;
+    // Versions rebuilt so far keyed by edit filename, so navigating to
+    // nearby edits only needs to apply a few patches. Only kept until the
+    // panel is cleared
+    versionCache: Map<string, string> = new Map();
+    // Object URLs of the binary edits currently displayed, need to be revoked
+    // when no longer displayed
+    objectUrls: string[] = [];
+    // Parent of the child components of the Markdown currently rendered,
+    // needs to be unloaded when no longer displayed
+    renderComponent: Component|null = null;
     curDiffIndex: number;
     diffElements: NodeListOf<HTMLElement>;
+    // Matches of the find in diff box in the diff currently displayed
+    curSearchIndex = 0;
+    searchElements: HTMLElement[] = [];
     
-    constructor(plugin: EditHistory) { 
-        super(plugin.app);
+    constructor(plugin: EditHistory, contentEl: HTMLElement, titleEl: HTMLElement, file: TFile|null, edit: string|null, focus: boolean, onDone: () => void) { 
         this.plugin = plugin;
+        this.app = plugin.app;
+        this.contentEl = contentEl;
+        this.titleEl = titleEl;
+        this.file = file;
+        this.edit = edit;
+        this.focus = focus;
+        this.onDone = onDone;
+    }
+
+    /**
+     * @return the edits from the selected edit to the compare edit, both
+     *         included, most recent first. Just the selected edit if the
+     *         compare edit is not an edit, plus the previous edit if
+     *         includePrevious and comparing against the previous edit.
+     */
+    getEditRange(filepaths: string[], selectedEdit: string, compareEdit: string, includePrevious: boolean): string[] {
+        const i = filepaths.indexOf(selectedEdit);
+        let j = filepaths.indexOf(compareEdit);
+        if ((j == -1) && includePrevious && (compareEdit == COMPARE_EDIT_PREVIOUS)) {
+            j = Math.min(i + 1, filepaths.length - 1);
+        }
+        if (j == -1) {
+            j = i;
+        }
+        return filepaths.slice(Math.min(i, j), Math.max(i, j) + 1);
+    }
+
+    getEditRangeStr(edits: string[]): string {
+        return (edits.length == 1) ? 
+            `the edit from ${getEditLocalDateStr(edits[0])}` : 
+            `${edits.length} edits from ${getEditLocalDateStr(edits[edits.length-1])} to ${getEditLocalDateStr(edits[0])}`;
+    }
+
+    /**
+     * Remove the given edits from the edit history file and render the panel
+     * again so it displays the remaining edits
+     */
+    async removeEdits(file: TFile, edits: string[]) {
+        if (await this.plugin.removeEdits(file, edits) == 0) {
+            this.onDone();
+            return;
+        }
+        this.edit = null;
+        this.clear();
+        await this.render();
     }
 
-    renderCalendar(calendarDiv: HTMLElement, select: DropdownComponent, zipFile: TFile, zip: JSZip, filepaths: string[]) {
+    renderCalendar(calendarDiv: HTMLElement, select: DropdownComponent, editHistory: EditHistoryFile, filepaths: string[]) {
         // XXX Abstract this more? problems are revstats requiring the zip file
         //     or recalculate values outside. select should also be removed and
         //     take a cell onclick callback or do the cell onclick in the caller?
@@ -837,10 +3071,11 @@ class EditHistoryModal extends Modal {
         // week, one column per week, multiple columns per month.
 
         const selectedEdit = select.getValue();
-        const year = this.plugin.getEditDate(selectedEdit).getFullYear();
+        const year = getEditDate(selectedEdit).getFullYear();
         
         let calendarHtml = '<table class="calendar">';
         let fileTimeToEditCount = new Map<number, number>();
+        let fileTimeToLabels = new Map<number, string[]>();
         let fileSize = 0;
         let numFiles = 0;
 
@@ -854,12 +3089,16 @@ class EditHistoryModal extends Modal {
         for (let fp of filepaths) {
             // XXX filepaths are sorted by decreasing date, could binary search
             //     to the selected year, probably overkill?
-            let d = this.plugin.getEditDate(fp);
+            let d = getEditDate(fp);
             if (d.getFullYear() == year) {
-                const t = this.plugin.getEditFileTime(fp);
+                const t = getEditFileTime(fp);
                 const count = fileTimeToEditCount.get(t) || 0;
                 fileTimeToEditCount.set(t, count + 1);
-                fileSize += this.plugin.getEditCompressedSize(zip, fp);
+                const label = editHistory.getEditLabel(fp);
+                if (label != null) {
+                    fileTimeToLabels.set(t, [...(fileTimeToLabels.get(t) || []), label.label || label.message.split("\n")[0]]);
+                }
+                fileSize += editHistory.getEditCompressedSize(fp);
                 numFiles++;
             } else if (d.getFullYear() < year) {
                 // filepaths are sorted newest first, exit when switching
@@ -876,7 +3115,7 @@ class EditHistoryModal extends Modal {
         const minFileEditCount = Math.min(...editCounts);
         const editCountRange = maxFileEditCount - minFileEditCount;
         const maxShade = 5; // From 0 to maxShade shade levels
-        const selectedFileTime = this.plugin.getEditFileTime(selectedEdit);
+        const selectedFileTime = getEditFileTime(selectedEdit);
         const firstDayOfYear = new Date(year, 0, 1);
         const startDate = new Date(year, 0, 1 - firstDayOfYear.getDay());
         // one row per day of the week
@@ -941,8 +3180,13 @@ class EditHistoryModal extends Modal {
                     }
                     styleClass += "clickable level-" + shadeLevel;
                     tooltip += ` (${count} edits)`;
+                    const labels = fileTimeToLabels.get(t);
+                    if (labels !== undefined) {
+                        styleClass += " labeled";
+                        tooltip += ": " + labels.join(", ");
+                    }
                 } 
-                calendarHtml += `<td id="calendar-${t}" class="${styleClass}" title="${tooltip}"></td>`;
+                calendarHtml += `<td id="calendar-${t}" class="${styleClass}" title="${htmlEncode(tooltip, false)}"></td>`;
                 d.setDate(d.getDate()+7);
             }
             calendarHtml += "</tr>";
@@ -969,7 +3213,7 @@ class EditHistoryModal extends Modal {
                 const selectEl = select.selectEl;
                 const options = selectEl.options;
                 for (let i = 0; i < options.length; i++) {
-                    let d = this.plugin.getEditDate(options[i].value);
+                    let d = getEditDate(options[i].value);
                     d = new Date(d.getFullYear(), d.getMonth(), d.getDate());
                     const optionFileTime = d.getTime();
                     if (optionFileTime == cellFileTime) {
@@ -987,27 +3231,19 @@ class EditHistoryModal extends Modal {
         // XXX Use human friendly units (KB, MB, GB, etc)
         revStats.setText(
             `${numFiles}/${filepaths.length} edit${(filepaths.length > 1) ? "s " : " "}` +
-            `${fileSize}/${(zipFile as TFile).stat.size} bytes compressed, ${this.app.workspace.getActiveFile()?.stat.size} note bytes`
+            `${fileSize}/${editHistory.size} bytes compressed, ${this.file?.stat.size} note bytes`
         );
     }
 
-    async renderDiffsTimeline(zip: JSZip, dmpobj: DiffMatchPatch, filepaths: string[], selectedEdit: string, latestData: string, showWhitespace: boolean): Promise<string> {
-        
-        let annots : string[] = [];
-        let lineToRefLine : number[] = [];
-        let lines : string[] = [];
-        let annotate = false;
-        let remainingAnnots = 0;
-        let data = latestData;
-        let newerData = latestData;
-        let prevFileDateStr = "";
-        
-        let notice = null;
+    async renderDiffsTimeline(editHistory: EditHistoryFile, filepaths: string[], selectedEdit: string, compareEdit: string, compareData: string, showWhitespace: boolean): Promise<string> {
+        let notice: Notice|null = null;
 
         let nextReportPct = 0;
         const reportIntervalPct = 5;
         const startTime = Date.now();
-        for (const [ifp, filepath] of filepaths.entries()) {
+        // Edit filename that most recently modified each line, the edit date
+        // is only generated at render time
+        const { lines, edits: annots } = await editHistory.annotateLines(selectedEdit, (ifp: number) => {
             // Timeline can take a long time with lots of edits, report, but
             // only every few iterations to avoid unnecessary overhead
             // XXX Find a way to allow cancel?
@@ -1030,136 +3266,187 @@ class EditHistoryModal extends Modal {
                         notice = new Notice("", 0);
                     }
                 }
-                // Note this may not reach 100% if the loop early exists below,
-                // but it's very unlikely
+                // Note this may not reach 100% if annotating exits early
+                // because all lines are annotated
                 notice?.setMessage(`Computing timeline ${pct}%`);
                 nextReportPct += reportIntervalPct;
             }
-            // Loop over filepaths,
-            // - first rebuilding the file contents for the selectedEdit
-            // - once found, keep rebuilding versions and also store the time
-            //   annotation for each line (ie time of the edit that most
-            //   recently modified that line)
-            const diff = await zip.file(filepath).async("string");
-            newerData = data;
-            if (this.plugin.getEditIsDiff(filepath)) {
-                // Rebuild the data from the diff applied to the current data
-                const patch = dmpobj.patch_fromText(diff);
-                data = dmpobj.patch_apply(patch, data)[0];
-            } else {
-                // The full file was stored, there's no diff
-                data = diff;
-            }
-            if (!annotate && (selectedEdit == filepath)) {
-                // Note split returns 2 for a string with a single \n, no need
-                // to +1
-                lines = data.split("\n");
-                const numLines = lines.length;
-                annots = new Array(numLines).fill("");
-                // lineToRefLine[i] : for line i of the current data, what is
-                // the line of the reference filepath. Could be -1 if the
-                // reference filepath doesn't contain that line and could have
-                // less than the reference lines if the current filepath doesn't
-                // contain that line
-                lineToRefLine = Array.from({ length: numLines + 1 }, (_, i) => i);
-                annotate = true;
-                prevFileDateStr = this.plugin.getEditLocalDateStr(filepath);  
-                remainingAnnots = annots.length;
-            } else if (annotate) {
-                // Get the diff to go from the newer version to the older
-                // version (backwards diff), so newer lines appear as deletions
-                // and viceversa (this allows to replace the line diff with with
-                // the stored diffs in the future, which also store a backwards
-                // diff)
-                // Use linemode since we are interested in full line changes,
-                // but note that line diffs still include carriage returns
-                // inside so they need to be looped over below
-                // XXX This should use the patch and not recreate the diff, but
-                //     patches are contextless and require tracking how lines
-                //     are inserted or deleted as if the patch were applied
-                const diffs = dmpobj.diff_lineMode(newerData, data);
-                let line = 0;
-                for (const [op, diffData] of diffs) {
-                    // Counting diffs and diff_linemode above are by far the
-                    // hotspots of this function (eg 280ms and 170ms each).
-                    // For counting lines .split().length is 270ms vs.
-                    // .match().length 346ms
-                    const numLines = diffData.split("\n").length-1;
-                    for (let i=0; i < numLines; ++i) {
-                        const refLine = lineToRefLine[line];
-                        switch (op as number) {
-                            case DiffOp.Delete:
-                                // If the old file doesn't have this line, it
-                                // means the new file inserted the line, annotate
-                                // as such unless it's already annotated
-                                lineToRefLine.splice(line, 1);
-                                if ((refLine != -1) && (annots[refLine] == "")) {
-                                    annots[refLine] = prevFileDateStr;
-                                    remainingAnnots--;
-                                }
-                            break;
-                            case DiffOp.Insert:
-                                // The new file doesn't have this line, it means
-                                // the new file deleted it, nothing to annotate,
-                                // but tag this line as not present 
-                                lineToRefLine.splice(line, 0, -1);
-                                line++;
-                            break;
-                            case DiffOp.Equal:
-                                line++;
-                            break;
-                        }
-                        // Early exit if all the lines have annotations. This is
-                        // unlikely to hit unless at some point the whole file
-                        // was rewritten
-                        if (remainingAnnots == 0) {
-                            break;
-                        }
-                    }
-                    if (remainingAnnots == 0) {
-                        break;
-                    }
-                }
-                prevFileDateStr = this.plugin.getEditLocalDateStr(filepath);
+        });
+
+        // Highlight the lines of the selected edit that differ from the
+        // compare data. When comparing against an older version (or the empty
+        // file) those are the lines inserted since, when comparing against a
+        // newer version (or the current contents) those are the lines that
+        // were later modified or deleted
+        const compareIsNewer = (compareEdit == COMPARE_EDIT_CURRENT) || 
+            ((compareEdit != COMPARE_EDIT_PREVIOUS) && (compareEdit != COMPARE_EDIT_EMPTY) && 
+             (getEditEpoch(compareEdit) > getEditEpoch(selectedEdit)));
+        const diffClass = compareIsNewer ? "mod-left" : "mod-right";
+        const changedLines: boolean[] = new Array(lines.length).fill(false);
+        // Terminate the last lines so they are diffed as full lines
+        const diffs = this.plugin.dmpobj.diff_lineMode(compareData + "\n", lines.join("\n") + "\n");
+        let line = 0;
+        for (const [op, diffData] of diffs) {
+            // Lines only in the compare data don't exist in the selected edit,
+            // nothing to highlight
+            if ((op as number) == DiffOp.Delete) {
+                continue;
+            }
+            const numLines = diffData.split("\n").length - 1;
+            for (let i = 0; i < numLines; ++i) {
+                changedLines[line++] = ((op as number) == DiffOp.Insert);
             }
         }
 
         // Generate a table with the annotated file, time annotations on the
         // left column and text lines on the right
         let diffHtml: string = "<table>";
-        const fileDateStr = this.plugin.getEditLocalDateStr(selectedEdit);
         for (let i=0; i < lines.length; ++i) {
-            const hdata1 = htmlEncode(annots[i], false);
+            const annotDateStr = (annots[i] == "") ? "" : getEditStr(editHistory, annots[i]);
+            const hdata1 = htmlEncode(annotDateStr, false);
             const hdata2 = htmlEncode(lines[i], showWhitespace);
 
-            if (annots[i] == fileDateStr) {
-                // If the annotation date is the selectedEdit, tag as diff-line
+            if (changedLines[i]) {
+                // If the line differs from the compare data, tag as diff-line
                 // so it gets highlighted and can be navigated and counted as
-                // diff for stats display (but can only tag insertions,
-                // deletions are missing by definition of the timeline view)
+                // diff for stats display (but can only tag lines of the
+                // selected edit, lines missing from it can't be displayed by
+                // definition of the timeline view)
                 
                 // XXX This causes the scroll to move when navigating by
                 //     clicking the time because the first diff-line is focused
                 //     when the select changes, which may undesirable since the
                 //     clicked time line may be scrolled out, fix?
-                diffHtml += `<tr class="diff-line"><td class="clickable diff-time">${hdata1}</td><td class="mod-right">${hdata2}</td></tr>`;
+                diffHtml += `<tr class="diff-line"><td class="clickable diff-time">${hdata1}</td><td class="${diffClass}">${hdata2}</td></tr>`;
             } else {
-                diffHtml += `<tr><td class="clickable diff-time ${(annots[i] == fileDateStr) ? "diff-line" : ""}">${hdata1}</td><td>${hdata2}</td></tr>`;
+                diffHtml += `<tr><td class="clickable diff-time">${hdata1}</td><td>${hdata2}</td></tr>`;
             }
         }
         diffHtml += "</table>";
 
-        notice?.hide();
+        // Typescript doesn't see the notice assignment inside the callback
+        // and narrows notice to null here, cast
+        (notice as Notice|null)?.hide();
 
         return diffHtml;
     }
 
-    renderDiffsInline(diffs: Diff[], showWhitespace: boolean): string {
+    async renderBinaryDiff(diffDiv: HTMLElement, file: TFile, editHistory: EditHistoryFile, filepaths: string[], selectedEdit: string, compareEdit: string) {
+        const currentData = await editHistory.getEditBinaryData(selectedEdit);
+        // Store the currently selected version so it can be restored
+        this.currentVersionData = currentData;
+
+        let compareData: ArrayBuffer|null = null;
+        let compareLabel;
+        switch (compareEdit) {
+            case COMPARE_EDIT_PREVIOUS: {
+                const previousEdit = filepaths[filepaths.indexOf(selectedEdit) + 1];
+                if (previousEdit !== undefined) {
+                    compareData = await editHistory.getEditBinaryData(previousEdit);
+                    compareLabel = getEditLocalDateStr(previousEdit);
+                } else {
+                    compareLabel = "empty file";
+                }
+            }
+            break;
+            case COMPARE_EDIT_CURRENT:
+                compareData = await this.app.vault.readBinary(file);
+                compareLabel = "current contents";
+            break;
+            case COMPARE_EDIT_EMPTY:
+                compareLabel = "empty file";
+            break;
+            default:
+                compareData = await editHistory.getEditBinaryData(compareEdit);
+                compareLabel = getEditLocalDateStr(compareEdit);
+            break;
+        }
+
+        // The hash is stored alongside the edit, but it's also needed for the
+        // current contents, just compute both
+        const currentHash = await computeHash(currentData);
+        const compareHash = (compareData == null) ? "" : await computeHash(compareData);
+
+        for (const url of this.objectUrls) {
+            URL.revokeObjectURL(url);
+        }
+        this.objectUrls = [];
+        
+        diffDiv.empty();
+        const table = diffDiv.createEl("table", { cls: "binary-diff" });
+        table.setAttr("width", "100%");
+        const headerRow = table.createEl("tr");
+        headerRow.createEl("th", { text: compareLabel });
+        headerRow.createEl("th", { text: getEditLocalDateStr(selectedEdit) });
+        // Tag as diff-line if the contents are different so it gets
+        // highlighted and can be navigated and counted as a diff
+        const row = table.createEl("tr", { cls: (currentHash != compareHash) ? "diff-line" : "" });
+        for (const [data, hash, cls] of [
+            [compareData, compareHash, "mod-left"], 
+            [currentData, currentHash, "mod-right"]
+        ] as [ArrayBuffer|null, string, string][]) {
+            const cell = row.createEl("td", { cls: cls });
+            cell.setAttr("width", "50%");
+            if (data == null) {
+                cell.createEl("div", { text: "No contents" });
+                continue;
+            }
+            if (this.plugin.isImageFile(file)) {
+                const url = URL.createObjectURL(new Blob([data]));
+                this.objectUrls.push(url);
+                cell.createEl("img", { attr: { src: url } });
+            }
+            cell.createEl("div", { text: `${data.byteLength} bytes` });
+            cell.createEl("div", { text: `SHA-256 ${hash}` });
+        }
+    }
+
+    /**
+     * Render the Markdown of the diffs into diffDiv, highlighting the blocks
+     * that were removed, added or changed
+     */
+    async renderDiffsRendered(diffDiv: HTMLElement, diffs: Diff[], sourcePath: string) {
+        this.renderComponent?.unload();
+        this.renderComponent = new Component();
+        this.renderComponent.load();
+
+        diffDiv.empty();
+        const renderedDiv = diffDiv.createDiv("rendered-diff markdown-rendered");
+        for (let i = 0; i < diffs.length; ++i) {
+            const [op, data] = diffs[i];
+            if (data.trim() == "") {
+                continue;
+            }
+            switch (op as number) {
+                case DiffOp.Delete: {
+                    // A removal followed by an addition is a change, display
+                    // the old and new blocks together so they are navigated
+                    // as a single diff
+                    const changed = (i + 1 < diffs.length) && ((diffs[i + 1][0] as number) == DiffOp.Insert);
+                    const changeDiv = renderedDiv.createDiv("diff-line rendered-block" + (changed ? " changed" : ""));
+                    await MarkdownRenderer.render(this.app, data, changeDiv.createDiv("mod-left"), sourcePath, this.renderComponent);
+                    if (changed) {
+                        i++;
+                        await MarkdownRenderer.render(this.app, diffs[i][1], changeDiv.createDiv("mod-right"), sourcePath, this.renderComponent);
+                    }
+                }
+                break;
+                case DiffOp.Insert:
+                    await MarkdownRenderer.render(this.app, data, renderedDiv.createDiv("diff-line rendered-block").createDiv("mod-right"), sourcePath, this.renderComponent);
+                break;
+                case DiffOp.Equal:
+                    await MarkdownRenderer.render(this.app, data, renderedDiv.createDiv("rendered-block"), sourcePath, this.renderComponent);
+                break;
+            }
+        }
+    }
+
+    renderDiffsInline(diffs: Diff[], showWhitespace: boolean, contextLines: number): string {
         let diffHtml = "";
         // This is equivalent to diff_prettyHtml, but that one inserts
         // hard-coded background colors, use styles instead. See
         // https://github.com/google/diff-match-patch/blob/master/javascript/diff_match_patch_uncompressed.js
-        for (const [op, data] of diffs) {
+        for (const [i, [op, data]] of diffs.entries()) {
             // Some Insert/Delete diffs are empty independently of
             // calling diff_cleanupSemantic, ignore. See
             // https://github.com/google/diff-match-patch/issues/105
@@ -1175,6 +3462,15 @@ class EditHistoryModal extends Modal {
                     diffHtml += `<ins class="diff-line mod-right">${hdata}</ins>`;
                 break;
                 case DiffOp.Equal:
+                    // Collapse unchanged lines far from the changes. The
+                    // first and last lines of the unchanged text are part of
+                    // the lines of the changes, so they don't count as context
+                    if (contextLines != Infinity) {
+                        hdata = foldLines(hdata, 
+                            (i == 0) ? 0 : contextLines + 1, 
+                            (i == diffs.length - 1) ? 0 : contextLines + 1, 
+                            i);
+                    }
                     diffHtml += `<span>${hdata}</span>`;
                 break;
             }
@@ -1182,7 +3478,7 @@ class EditHistoryModal extends Modal {
         return diffHtml;
     }
 
-    renderDiffsSideOrTop(diffs: Diff[], sideBySide: boolean, showWhitespace: boolean): string {
+    renderDiffsSideOrTop(diffs: Diff[], sideBySide: boolean, showWhitespace: boolean, contextLines: number): string {
         // Group the diffs by carriage-terminated blocks of lines,
         // display them in a table side by side or top by bottom
 
@@ -1200,8 +3496,11 @@ class EditHistoryModal extends Modal {
         let left = "";
         let right = "";
         let diffHtml = '<table width="100%"><tbody>';
+        // Whether there were changes before the current diff, to know if
+        // unchanged lines need context before
+        let changed = false;
         // Append a dummy terminator to detect the loop end and flush
-        for (const [op, data] of [...diffs, [DiffOp.Equal as number, ""] as Diff]) {
+        for (const [iDiff, [op, data]] of [...diffs, [DiffOp.Equal as number, ""] as Diff].entries()) {
             // Some Insert/Delete diffs are empty independently of
             // calling diff_cleanupSemantic, ignore. See
             // https://github.com/google/diff-match-patch/issues/105
@@ -1219,6 +3518,7 @@ class EditHistoryModal extends Modal {
             }
             switch (op as number) {
                 case DiffOp.Delete:
+                    changed = true;
                     left += `<del>${hdata}</del>`;
                     // Don't flush even if it ends in a carriage return,
                     // the right side is the one that tracks returns.
@@ -1232,6 +3532,7 @@ class EditHistoryModal extends Modal {
                     //     proper block is anyway.
                 break;
                 case DiffOp.Insert:
+                    changed = true;
                     right += `<ins>${hdata}</ins>`;
                     // Flush left and right if right ends in carriage
                     // return, otherwise wait for a carriage return
@@ -1274,6 +3575,15 @@ class EditHistoryModal extends Modal {
                     i = hdata.lastIndexOf("\n");
                     if (i != -1) {
                         let start = hdata.slice(0, i+1);
+                        // Collapse unchanged lines far from the changes,
+                        // the lines after the last carriage return are
+                        // part of the next change, if any
+                        if (contextLines != Infinity) {
+                            start = foldLines(start, 
+                                changed ? contextLines : 0, 
+                                (iDiff < diffs.length - 1) ? contextLines : 0, 
+                                iDiff);
+                        }
                         if (sideBySide) {
                             diffHtml += `<tr><td>${start}</td><td>${start}</td></tr>`;
                         } else {
@@ -1288,13 +3598,133 @@ class EditHistoryModal extends Modal {
                 break;
             }
         }
-        diffHtml += "</tbody></table>";
-        
-        return diffHtml;
+        diffHtml += "</tbody></table>";
+        
+        return diffHtml;
+    }
+
+    /**
+     * @return the search scope the text node of the rendered diff belongs to,
+     *         null if it's not part of the diff (eg the timeline dates)
+     */
+    getDiffSearchScope(node: Node, diffDisplayFormat: DiffDisplayFormat): DiffSearchScope|null {
+        const el = node.parentElement;
+        if ((el == null) || (el.closest("td.diff-time") != null) || (el.closest(".diff-fold-marker") != null)) {
+            return null;
+        }
+        if (el.closest("del") != null) {
+            return DiffSearchScope.Deleted;
+        }
+        if (el.closest("ins") != null) {
+            return DiffSearchScope.Inserted;
+        }
+        // The timeline has no ins tags, lines modified since the compare edit
+        // are the diff-line rows
+        if ((diffDisplayFormat == DiffDisplayFormat.Timeline) && (el.closest("tr.diff-line") != null)) {
+            return DiffSearchScope.Inserted;
+        }
+        // The rendered view has no del or ins tags, removed and added blocks
+        // are the left and right blocks
+        if (diffDisplayFormat == DiffDisplayFormat.Rendered) {
+            if (el.closest(".mod-left") != null) {
+                return DiffSearchScope.Deleted;
+            }
+            if (el.closest(".mod-right") != null) {
+                return DiffSearchScope.Inserted;
+            }
+        }
+        return DiffSearchScope.Unchanged;
+    }
+
+    /**
+     * Highlight the matches of the query in the text of the rendered diff that
+     * belongs to the given scope, replacing any previous highlight
+     * 
+     * XXX Matches spanning more than one element (eg partially inserted words)
+     *     are not found
+     */
+    searchDiff(diffDiv: HTMLElement, query: string, scope: DiffSearchScope, diffDisplayFormat: DiffDisplayFormat, showWhitespace: boolean) {
+        // Remove the previous highlight
+        for (const el of this.searchElements) {
+            el.replaceWith(el.textContent as string);
+        }
+        diffDiv.normalize();
+        this.searchElements = [];
+        this.curSearchIndex = 0;
+        if (query == "") {
+            return;
+        }
+        // The query needs to match the whitespace markers in the rendered text
+        // XXX Newlines are matched against the paragraph marker only when
+        //     whitespace is displayed
+        const needle = (showWhitespace ? htmlDecode(htmlEncode(query, true)) : query).toLowerCase();
+
+        // Collect the text nodes first since they are modified below
+        const nodes: Text[] = [];
+        const walker = document.createTreeWalker(diffDiv, NodeFilter.SHOW_TEXT);
+        while (walker.nextNode()) {
+            const node = walker.currentNode as Text;
+            const nodeScope = this.getDiffSearchScope(node, diffDisplayFormat);
+            if ((nodeScope != null) && ((scope == DiffSearchScope.All) || (scope == nodeScope))) {
+                nodes.push(node);
+            }
+        }
+        for (let node of nodes) {
+            let index = (node.textContent as string).toLowerCase().indexOf(needle);
+            while (index != -1) {
+                // Split the text node into the text before, the match, and the
+                // text after, and keep searching in the text after
+                const matchNode = node.splitText(index);
+                node = matchNode.splitText(needle.length);
+                const mark = createEl("mark", { cls: "search-match" });
+                matchNode.replaceWith(mark);
+                mark.appendChild(matchNode);
+                this.searchElements.push(mark);
+                index = (node.textContent as string).toLowerCase().indexOf(needle);
+            }
+        }
     }
 
-    async onOpen() {
-        const file = this.app.workspace.getActiveFile();
+    /**
+     * Expand the collapsed unchanged lines with the given fold identifier
+     */
+    expandFold(foldId: string) {
+        this.contentEl.querySelectorAll<HTMLElement>(`[data-fold="${foldId}"]`).forEach((el: HTMLElement) => {
+            if (el.hasClass("diff-fold-marker")) {
+                el.remove();
+            } else {
+                el.removeClass("diff-fold");
+            }
+        });
+    }
+
+    /**
+     * Scroll to the element of the diff, expanding the collapsed unchanged
+     * lines it's in, if any
+     */
+    revealDiffElement(el: HTMLElement) {
+        const fold = el.closest(".diff-fold");
+        if (fold != null) {
+            this.expandFold(fold.getAttr("data-fold") as string);
+        }
+        el.scrollIntoView({block: "center"});
+    }
+
+    /**
+     * Move the current search match by the given delta, cycling at the ends
+     */
+    navigateSearch(delta: number) {
+        if (this.searchElements.length > 0) {
+            this.searchElements[this.curSearchIndex].removeClass("search-current");
+            this.curSearchIndex = (this.curSearchIndex + this.searchElements.length + delta) % this.searchElements.length;
+            this.revealDiffElement(this.searchElements[this.curSearchIndex]);
+            this.searchElements[this.curSearchIndex].addClass("search-current");
+        }
+    }
+
+    async render() {
+        this.file = this.file || this.app.workspace.getActiveFile();
+        const file = this.file;
 
         this.titleEl.setText("Edits for ");
         this.titleEl.createEl("i", { text: file?.name });
@@ -1304,8 +3734,6 @@ class EditHistoryModal extends Modal {
         // XXX This icon is not visible on mobile on some older versions,
         //     find out which version and increase the required version?
         setIcon(calendarIcon, "calendar-plus-2");
-        
-        this.modalEl.addClass("edit-history-modal");
 
         const {contentEl} = this;        
         contentEl.addClass("edit-history-modal-content");
@@ -1320,46 +3748,26 @@ class EditHistoryModal extends Modal {
         // Note this may differ from the last edit stored in the zip since not
         // all edits are stored in the file depending on the value of
         // this.minMsBetweenEdits
-        const latestData = await this.app.vault.read(file);
+        // Binary files are not diffed as text, their contents are only read
+        // when needed
+        const isBinary = this.plugin.isBinaryFile(file);
+        const latestData = isBinary ? "" : await this.app.vault.read(file);
     
-        // Create or open the zip with the edit history of this file
-
-        // XXX Review perf notes at https://stuk.github.io/jszip/documentation/limitations.html
-        const zip: JSZip = new JSZip();
+        // Open the edit history of this file
         const zipFilepath = this.plugin.getEditHistoryFilepath(file.path);
-        logInfo("Opening zip file ", zipFilepath);
-        const zipFile = this.app.vault.getAbstractFileByPath(zipFilepath);
-        if ((zipFile == null) || (!(zipFile instanceof TFile))) {
+        const editHistory = await this.plugin.storage.open(zipFilepath);
+        if (editHistory == null) {
             logWarn("No history file or not a file", zipFilepath);
             contentEl.createEl("p", { text: "No edit history file"});
             return;
         }
-        
-        const zipData = await this.app.vault.readBinary(zipFile);
-        if (zipData == null) {
-            logWarn("Unable to read history file");
-            contentEl.createEl("p", { text: "No edit history"});
-            return;
-        }
-
-        await zip.loadAsync(zipData);
 
-        const filepaths:string[] = [];
-        zip.forEach(function (relativePath:string) {
-            filepaths.push(relativePath);
-        });
+        const filepaths = editHistory.listEdits();
         if (filepaths.length == 0) {
             logWarn("Empty edit history file");
             contentEl.createEl("p", { text: "Empty edit history"});
             return;
         }
-        // Sort most recent first (although probably unnecessary since the zip
-        // seems to list in creation order already)
-        this.plugin.sortEdits(filepaths);
-
-        const dmpobj = new DiffMatchPatch();
-        
-        // XXX Allow searching in the diff text rendering
 
         const calendarDiv = contentEl.createDiv();
         // The calendar is too tall for mobile, allow collapsing/expanding
@@ -1376,7 +3784,15 @@ class EditHistoryModal extends Modal {
         const control = contentEl.createDiv("setting-item-control");
         control.style.justifyContent = "flex-start";
         const select = new DropdownComponent(control);
-        select.selectEl.focus();
+        if (this.focus) {
+            select.selectEl.focus();
+        }
+
+        control.createEl("span").setText("against");
+        const compareSelect = new DropdownComponent(control)
+            .onChange(async () => {
+                select.selectEl.trigger("change");
+            });
 
         const diffDisplaySelect = new DropdownComponent(control)
             .addOptions(diffDisplayFormatToString)
@@ -1384,6 +3800,13 @@ class EditHistoryModal extends Modal {
             .onChange(async () => {
                 select.selectEl.trigger("change");
             });
+
+        const diffGranularitySelect = new DropdownComponent(control)
+            .addOptions(diffGranularityToString)
+            .setValue(this.plugin.settings.diffGranularity)
+            .onChange(async () => {
+                select.selectEl.trigger("change");
+            });
         
         const diffInfo: HTMLElement = control.createEl("span");
 
@@ -1392,9 +3815,104 @@ class EditHistoryModal extends Modal {
         const copyButton = new ButtonComponent(control)
             .setButtonText("Copy")
             .setClass("mod-cta")
+            .setDisabled(isBinary)
             .onClick(() => {
                 logInfo("Copied to clipboard");
-                navigator.clipboard.writeText(this.currentVersionData);
+                navigator.clipboard.writeText(this.currentVersionData as string);
+            });
+
+        new ButtonComponent(control)
+            .setButtonText("Restore")
+            .setClass("mod-cta")
+            .onClick(() => {
+                const selectedEdit = select.getValue();
+                const restoreData = this.currentVersionData;
+                new ConfirmModal(this.app, 
+                    `Replace the contents of "${file.name}" with the edit from ${getEditLocalDateStr(selectedEdit)}?`, 
+                    "Restore",
+                    async () => {
+                        logInfo("Restoring edit", selectedEdit);
+                        // Store the current contents before overwriting them so
+                        // the restore can be undone by restoring that edit
+                        await this.plugin.storeEdit(file);
+                        if (typeof restoreData == "string") {
+                            await this.app.vault.modify(file, restoreData);
+                        } else {
+                            await this.app.vault.modifyBinary(file, restoreData);
+                        }
+                        // Store the restored contents too, otherwise they
+                        // wouldn't be stored in manual saving mode
+                        await this.plugin.storeEdit(file);
+                        new Notice(`Restored edit from ${getEditLocalDateStr(selectedEdit)}`);
+                        this.onDone();
+                    }
+                ).open();
+            });
+
+        new ButtonComponent(control)
+            .setButtonText("Delete")
+            .setWarning()
+            .setTooltip("Delete the selected edit, or all the edits from the selected edit to the edit it's compared against")
+            .onClick(() => {
+                const edits = this.getEditRange(filepaths, select.getValue(), compareSelect.getValue(), false);
+                new ConfirmModal(this.app, 
+                    `Delete ${this.getEditRangeStr(edits)} from the edit history of "${file.name}"? This can't be undone.`, 
+                    "Delete",
+                    async () => {
+                        await this.removeEdits(file, edits);
+                        new Notice(`Deleted ${edits.length} edit${(edits.length > 1) ? "s" : ""}`);
+                    }
+                ).open();
+            });
+
+        new ButtonComponent(control)
+            .setButtonText("Squash")
+            .setTooltip("Merge all the edits from the selected edit to the edit it's compared against into the most recent of them")
+            .onClick(() => {
+                const edits = this.getEditRange(filepaths, select.getValue(), compareSelect.getValue(), true);
+                if (edits.length < 2) {
+                    new Notice("Nothing to squash, compare against an older or newer edit");
+                    return;
+                }
+                new ConfirmModal(this.app, 
+                    `Squash ${this.getEditRangeStr(edits)} of "${file.name}" into the edit from ${getEditLocalDateStr(edits[0])}? This can't be undone.`, 
+                    "Squash",
+                    async () => {
+                        // Squashing is removing all the edits in the range
+                        // but the most recent, whose version is the result
+                        // of all of them
+                        await this.removeEdits(file, edits.slice(1));
+                        new Notice(`Squashed ${edits.length} edits`);
+                    }
+                ).open();
+            });
+
+        new ButtonComponent(control)
+            .setButtonText("Label")
+            .setTooltip("Set the label and message of the selected edit")
+            .onClick(() => {
+                const selectedEdit = select.getValue();
+                new EditLabelModal(this.app, 
+                    `Label edit from ${getEditLocalDateStr(selectedEdit)}`, 
+                    editHistory.getEditLabel(selectedEdit), 
+                    async (label: EditLabel|null) => {
+                        // Label a freshly opened edit history file in case
+                        // edits were stored while the modal was open, but
+                        // also this one so it's displayed
+                        await this.plugin.setEditLabel(file, selectedEdit, label);
+                        editHistory.setEditLabel(selectedEdit, label);
+                        for (const selectEl of [select.selectEl, compareSelect.selectEl]) {
+                            for (let i = 0; i < selectEl.options.length; i++) {
+                                if (selectEl.options[i].value == selectedEdit) {
+                                    selectEl.options[i].text = getEditStr(editHistory, selectedEdit);
+                                }
+                            }
+                        }
+                        // Force rendering the calendar with the new label
+                        calendarDiv.empty();
+                        select.selectEl.trigger("change");
+                    }
+                ).open();
             });
 
         const prevButton = new ButtonComponent(control)
@@ -1433,6 +3951,111 @@ class EditHistoryModal extends Modal {
             .onChange(async () => {
                 select.selectEl.trigger("change");
             });
+
+        control.createEl("span").setText("Ignore whitespace");
+        const ignoreWhitespaceCheckbox = new ToggleComponent(control) 
+            .setValue(this.plugin.settings.ignoreWhitespace)
+            .onChange(async () => {
+                select.selectEl.trigger("change");
+            });
+
+        control.createEl("span").setText("Ignore case");
+        const ignoreCaseCheckbox = new ToggleComponent(control) 
+            .setValue(this.plugin.settings.ignoreCase)
+            .onChange(async () => {
+                select.selectEl.trigger("change");
+            });
+
+        control.createEl("span").setText("Ignore formatting");
+        const ignoreMarkdownCheckbox = new ToggleComponent(control) 
+            .setValue(this.plugin.settings.ignoreMarkdown)
+            .onChange(async () => {
+                select.selectEl.trigger("change");
+            });
+
+        control.createEl("span").setText("Labeled only");
+        const labeledCheckbox = new ToggleComponent(control) 
+            .setValue(false)
+            .onChange(async (labeledOnly: boolean) => {
+                if (labeledOnly && !filepaths.some((filepath: string) => editHistory.getEditLabel(filepath) != null)) {
+                    new Notice("No labeled edits");
+                    labeledCheckbox.setValue(false);
+                    return;
+                }
+                const selectedEdit = select.getValue();
+                addEditOptions(labeledOnly);
+                // Keep the selected edit if still listed, otherwise select the
+                // first one
+                select.setValue(selectedEdit);
+                if (select.selectEl.selectedIndex == -1) {
+                    select.selectEl.selectedIndex = 0;
+                }
+                select.selectEl.trigger("change");
+            });
+
+        // Find in diff
+        const searchControl = contentEl.createDiv("setting-item-control");
+        searchControl.style.justifyContent = "flex-start";
+        const searchText = new TextComponent(searchControl)
+            .setPlaceholder("Find in diff")
+            .onChange(() => {
+                applySearch(true);
+            });
+        searchControl.createEl("span").setText("in");
+        const searchScopeSelect = new DropdownComponent(searchControl)
+            .addOptions(diffSearchScopeToString)
+            .setValue(DiffSearchScope.All)
+            .onChange(() => {
+                applySearch(true);
+            });
+        const searchInfo: HTMLElement = searchControl.createEl("span");
+        new ButtonComponent(searchControl)
+            .setIcon("arrow-up")
+            .setTooltip("Previous match (shift+enter)")
+            .onClick(() => {
+                this.navigateSearch(-1);
+                updateSearchInfo();
+            });
+        new ButtonComponent(searchControl)
+            .setIcon("arrow-down")
+            .setTooltip("Next match (enter)")
+            .onClick(() => {
+                this.navigateSearch(1);
+                updateSearchInfo();
+            });
+        searchText.inputEl.addEventListener("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Enter") {
+                event.preventDefault();
+                this.navigateSearch(event.shiftKey ? -1 : 1);
+                updateSearchInfo();
+            }
+            // Don't let typed keys trigger the diff navigation shortcuts, but
+            // let escape close the modal
+            if (event.key !== "Escape") {
+                event.stopPropagation();
+            }
+        });
+        const updateSearchInfo = () => {
+            searchInfo.setText((searchText.getValue() == "") ? "" : 
+                (this.searchElements.length == 0) ? "no matches" : 
+                (this.curSearchIndex + 1) + "/" + this.searchElements.length + " match" + ((this.searchElements.length != 1) ? "es" : ""));
+        };
+        // Highlight the matches in the diff currently displayed, scrolling to
+        // the first one if scroll, otherwise keep the diff navigation scroll
+        const applySearch = (scroll: boolean) => {
+            this.searchDiff(diffDiv, searchText.getValue(), searchScopeSelect.getValue() as DiffSearchScope, 
+                diffDisplaySelect.getValue() as DiffDisplayFormat, whitespaceCheckbox.getValue());
+            if (this.searchElements.length > 0) {
+                this.searchElements[0].addClass("search-current");
+                if (scroll) {
+                    this.revealDiffElement(this.searchElements[0]);
+                }
+            }
+            updateSearchInfo();
+        };
+
+        // Label, message and metadata of the selected edit
+        const editInfo = contentEl.createDiv("edit-label-info");
         
         // Set tabindex to 0 so it can receive key events
         contentEl.setAttr("tabindex", 0);
@@ -1465,21 +4088,48 @@ class EditHistoryModal extends Modal {
             } else if ((event.key === "c") && event.ctrlKey) {
                 event.preventDefault();
                 copyButton.buttonEl.trigger("click");
+            } else if ((event.key === "f") && event.ctrlKey) {
+                event.preventDefault();
+                searchText.inputEl.focus();
+                searchText.inputEl.select();
             }
         });
         
         const diffDiv = contentEl.createDiv("diff-div");
+        // Expand collapsed unchanged lines on click
+        diffDiv.addEventListener("click", (event: MouseEvent) => {
+            const marker = (event.target as HTMLElement).closest(".diff-fold-marker");
+            if (marker != null) {
+                this.expandFold(marker.getAttr("data-fold") as string);
+            }
+        });
         let selectedDayCell : HTMLElement|null = null;
         select.onChange( async () => {
             // This is called implicitly from the event dispatcher but also
             // explicitly via .trigger()
             // XXX Abstract out instead?
             const selectedEdit = select.getValue();
+            this.edit = selectedEdit;
+
+            const label = editHistory.getEditLabel(selectedEdit);
+            const metadata = editHistory.getEditMetadata(selectedEdit);
+            editInfo.empty();
+            if (metadata != null) {
+                // Edits stored by older versions of the plugin have no
+                // metadata
+                editInfo.createDiv({ text: (isBinary ? `${metadata.size} bytes` : 
+                    `+${metadata.added} -${metadata.removed} characters, ${metadata.size} characters`) + 
+                    ((metadata.device != "") ? ` on ${metadata.device}` : "") });
+            }
+            if (label != null) {
+                editInfo.createDiv({ text: label.label + 
+                    (((label.label != "") && (label.message != "")) ? ": " : "") + label.message });
+            }
 
             // Update the selected cell or the whole calendar if the cell is not
             // found (ie calendar not rendered yet or year changed)
-            const selectedFileTime = this.plugin.getEditFileTime(selectedEdit);
-            const dayCell = document.getElementById(`calendar-${selectedFileTime}`) as HTMLElement|null;
+            const selectedFileTime = getEditFileTime(selectedEdit);
+            const dayCell = contentEl.querySelector<HTMLElement>(`#calendar-${selectedFileTime}`);
             if (dayCell) {
                 // Calendar already generated, highlight the new cell and
                 // lowlight the old one
@@ -1491,52 +4141,50 @@ class EditHistoryModal extends Modal {
                 selectedDayCell.addClass("calendar-selected");
                 selectedDayCell.removeClass("calendar-level");
             } else {
-                this.renderCalendar(calendarDiv, select, zipFile as TFile, zip, filepaths);
-                selectedDayCell = document.getElementById(`calendar-${selectedFileTime}`) as HTMLElement|null;
+                this.renderCalendar(calendarDiv, select, editHistory, filepaths);
+                selectedDayCell = contentEl.querySelector<HTMLElement>(`#calendar-${selectedFileTime}`);
+            }
+
+            if (isBinary) {
+                // Binary edits are stored in full and can't be diffed, display
+                // them side by side independently of the diff display format
+                await this.renderBinaryDiff(diffDiv, file, editHistory, filepaths, selectedEdit, compareSelect.getValue());
+                this.curDiffIndex = 0;
+                this.diffElements = diffDiv.querySelectorAll<HTMLElement>(".diff-line");
+                diffInfo.setText(this.diffElements.length == 0 ? "no changes" : "changed");
+                // Nothing to search in, but clear the previous matches
+                applySearch(false);
+                return;
             }
 
-            // Rebuild the file data of the given edit by applying the patches
-            // in reverse, if one of the edits is stored fully, discard the
-            // accumulated patched data and use the full data
-            let data = latestData;
+            // Rebuild the file data of the given edit and the compare edit
+            const compareEdit = compareSelect.getValue();
             let currentData = latestData;
-            let currentDiff = null;
-
-            // XXX This should cache currentData so sequentially traversing
-            //     filepaths doesn't need to recreate this, and even if it's not
-            //     sequential going to an earlier date can be done faster by
-            //     using a non-current previousData. Only do it for the lifetime
-            //     of the modal, so no need to keep one per each edited file.
-            let found = false;
-            let previousFound = false;
-            for (let filepath of filepaths) {
-                // filepath contains the negative backward diff to go from the
-                // immediately newer date to filepath's date, need to
-                // reconstruct the data upto the selected filepath and also the
-                // immediately older one so the positive forward diff from older
-                // to selected can be displayed
-                let diff = await zip.file(filepath).async("string");
-                
-                if (this.plugin.getEditIsDiff(filepath)) {
-                    // Rebuild the data from the diff applied to the current
-                    // data
-                    let patch = dmpobj.patch_fromText(diff);
-                    // XXX This could collect patches and apply them in a
-                    //     single call after the loop, not clear it's faster
-                    data = dmpobj.patch_apply(patch, data)[0];
-                } else {
-                    // The full file was stored, there's no diff
-                    data = diff;
-                }
+            let currentDiff = "";
+            // Data to diff the selected edit against, null if not found yet
+            let compareData: string|null = null;
+            if (compareEdit == COMPARE_EDIT_CURRENT) {
+                compareData = latestData;
+            } else if (compareEdit == COMPARE_EDIT_EMPTY) {
+                compareData = "";
+            }
 
-                if (found) {
-                    previousFound = true;
-                    break;
+            // Need to reconstruct the data of the selected filepath and also
+            // the compare one (by default the immediately older one) so the
+            // positive forward diff from compare to selected can be
+            // displayed. Rebuild the selected first, so the compare one can
+            // start from it
+            const selectedData = await editHistory.getVersion(selectedEdit, this.versionCache);
+            if (selectedData != null) {
+                currentData = selectedData;
+                currentDiff = await editHistory.getEditData(selectedEdit);
+            }
+            if (compareData == null) {
+                const olderEdit = (compareEdit == COMPARE_EDIT_PREVIOUS) ? 
+                    filepaths[filepaths.indexOf(selectedEdit) + 1] : compareEdit;
+                if (olderEdit !== undefined) {
+                    compareData = await editHistory.getVersion(olderEdit, this.versionCache);
                 }
-                found = (selectedEdit == filepath);
-
-                currentDiff = diff;
-                currentData = data;
             }
             
             // If selectedEdit is the oldest edit, it won't find a previous one
@@ -1544,19 +4192,16 @@ class EditHistoryModal extends Modal {
             // against that (this will be incorrect if the plugin wasn't enabled
             // when this file was created and already contained text, but
             // there's nothing that can be done in that case)
-            if (!previousFound) {
-                data = "";
+            if (compareData == null) {
+                compareData = "";
             }
 
-            // Display the diff against the latest edit
-            // XXX Have an option to diff against an arbitrary non-sequential edit?
+            // Display the diff against the compare edit
             // XXX This redoes the diff which shouldn't be necessary since
             //     we have all the patches, but it's not clear how to
             //     convert from patch to diff, looks like patch.diff is the
             //     set of diffs for a given patch? (but will still need to 
             //     re-diff when the whole file is saved instead of the diff)
-            // XXX Add fold/unfold before/after context lines to the UI like
-            //     file recovery does
             let diffHtml = "";
             // Store the currently selected version so it can be copied to
             // clipboard from the copy button handler
@@ -1565,9 +4210,13 @@ class EditHistoryModal extends Modal {
             // For side by side, getting line diffs via diff_lineMode could be
             // used instead which would avoid having to find line breaks below,
             // but using diff_main allows highlighting char-level diffs inside
-            // each line 
-            const diffs = dmpobj.diff_main(data, currentData);
-            dmpobj.diff_cleanupSemantic(diffs);
+            // each line, unless line granularity is chosen
+            const diffs = computeDiffs(this.plugin.dmpobj, compareData, currentData, {
+                granularity: diffGranularitySelect.getValue() as DiffGranularity,
+                ignoreWhitespace: ignoreWhitespaceCheckbox.getValue(),
+                ignoreCase: ignoreCaseCheckbox.getValue(),
+                ignoreMarkdown: ignoreMarkdownCheckbox.getValue(),
+            });
             const diffDisplayFormat = diffDisplaySelect.getValue() as DiffDisplayFormat;
             switch (diffDisplayFormat) {
                 case DiffDisplayFormat.Raw:
@@ -1586,41 +4235,48 @@ class EditHistoryModal extends Modal {
                     diffHtml = "<tt>" + hdata + "</tt>";
                 break;
                 case DiffDisplayFormat.Timeline:
-                    diffHtml = await this.renderDiffsTimeline(zip, dmpobj, filepaths, selectedEdit, latestData, showWhitespace);
+                    diffHtml = await this.renderDiffsTimeline(editHistory, filepaths, selectedEdit, compareEdit, compareData, showWhitespace);
                 break;
                 case DiffDisplayFormat.Inline:
-                    diffHtml = this.renderDiffsInline(diffs, showWhitespace);
+                    diffHtml = this.renderDiffsInline(diffs, showWhitespace, this.plugin.diffContextLines);
+                break;
+                case DiffDisplayFormat.Rendered:
+                    // Rendered directly into the diff div, diffed by blocks
+                    // independently of the granularity since the Markdown of
+                    // each block needs to be complete to be rendered
+                    await this.renderDiffsRendered(diffDiv, diffMarkdownBlocks(this.plugin.dmpobj, compareData, currentData), file.path);
                 break;
                 default:
                     const sideBySide = (diffDisplayFormat == DiffDisplayFormat.Horizontal);
-                    diffHtml = this.renderDiffsSideOrTop(diffs, sideBySide, showWhitespace);
+                    diffHtml = this.renderDiffsSideOrTop(diffs, sideBySide, showWhitespace, this.plugin.diffContextLines);
                 break;
             }
-            // Remove carriage returns since <br> have been added in htmlEncode
-            // XXX Do this in htmlEncode but \n can't be removed right away
-            //     since it's used to detect end of line in side by side
-            //     displays above
-            // XXX Removing carriage returns seems to be needed because in
-            //     styles.css .diff-div uses pre-wrap instead of just wrap in
-            //     order to preserve spaces/tabs so diff of a space is still
-            //     visible, but don't want to show carriage returns since
-            //     htmlEncode has converted them to <br>\n. Convert spaces/tabs
-            //     to nbsp in htmlEncode? Don't convert to <br> in htmlEncode?
-            diffHtml = diffHtml.replace(/\n/g, "");
+            if (diffDisplayFormat != DiffDisplayFormat.Rendered) {
+                // Remove carriage returns since <br> have been added in htmlEncode
+                // XXX Do this in htmlEncode but \n can't be removed right away
+                //     since it's used to detect end of line in side by side
+                //     displays above
+                // XXX Removing carriage returns seems to be needed because in
+                //     styles.css .diff-div uses pre-wrap instead of just wrap in
+                //     order to preserve spaces/tabs so diff of a space is still
+                //     visible, but don't want to show carriage returns since
+                //     htmlEncode has converted them to <br>\n. Convert spaces/tabs
+                //     to nbsp in htmlEncode? Don't convert to <br> in htmlEncode?
+                diffHtml = diffHtml.replace(/\n/g, "");
             
-            // XXX Make colors configurable, in modal setting or per theme
-            //     light/dark
-            //     See https://github.com/friebetill/obsidian-file-diff/issues/1#issuecomment-1425157959
-            // XXX Have a button to roll back to version
-            // XXX innerHTML is discouraged for security reasons, change?
-            //     (note this is safe because diffHtml is escaped)
-            //     See https://github.com/obsidianmd/obsidian-releases/blob/master/plugin-review.md#avoid-innerhtml-outerhtml-and-insertadjacenthtml
-            // XXX This is a performance hotspot, calls the internal parseHtml,
-            //     not clear this can be done faster by creating nodes manually
-            //     instead (chatgpt actually says parsing is faster). Creating
-            //     nodes and storing them would also also avoid calling
-            //     querySelectorAll below which is also a hotspot
-            diffDiv.innerHTML = diffHtml;
+                // XXX Make colors configurable, in modal setting or per theme
+                //     light/dark
+                //     See https://github.com/friebetill/obsidian-file-diff/issues/1#issuecomment-1425157959
+                // XXX innerHTML is discouraged for security reasons, change?
+                //     (note this is safe because diffHtml is escaped)
+                //     See https://github.com/obsidianmd/obsidian-releases/blob/master/plugin-review.md#avoid-innerhtml-outerhtml-and-insertadjacenthtml
+                // XXX This is a performance hotspot, calls the internal parseHtml,
+                //     not clear this can be done faster by creating nodes manually
+                //     instead (chatgpt actually says parsing is faster). Creating
+                //     nodes and storing them would also also avoid calling
+                //     querySelectorAll below which is also a hotspot
+                diffDiv.innerHTML = diffHtml;
+            }
             // Diffs are spans of <ins> or <del> tags, scroll to the first one
             this.curDiffIndex = 0;
             // diffElements is used for navigating prev/next diffs in all diff
@@ -1634,6 +4290,7 @@ class EditHistoryModal extends Modal {
             // XXX Number of diffs is ok for navigating but not a great
             //     statistic, this could also show chars added/chars deleted?
             diffInfo.setText((this.curDiffIndex + 1) + "/" + this.diffElements.length + " diff" + ((this.diffElements.length != 1) ? "s" : ""));
+            applySearch(false);
             // Navigate edits on click in the timeline view
             // XXX Clicking navigates the timeline "backwards", have a way of
             //     navigating forwards?
@@ -1664,32 +4321,141 @@ class EditHistoryModal extends Modal {
         });
 
         // Create option entries
+        const addEditOptions = (labeledOnly: boolean) => {
+            select.selectEl.empty();
+            for (let filepath of filepaths) {
+                // XXX The drop down displays the changes between the selected
+                //     date and the immediately older date
+                //     This means that:
+                //      -  the first entry should be a dummy entry with the current
+                //         contents date that displays the diff from the current
+                //         contents to the first file in the history (probably no
+                //         changes if a revision was recently saved)
+                //      - the last entry is a diff from that entry's date to the 
+                //        empty file
+                //     Missing setting the first dummy entry
+                if (!labeledOnly || (editHistory.getEditLabel(filepath) != null)) {
+                    select.addOption(filepath, getEditStr(editHistory, filepath));
+                }
+            }
+        };
+        addEditOptions(false);
+        compareSelect.addOption(COMPARE_EDIT_PREVIOUS, "previous edit");
+        compareSelect.addOption(COMPARE_EDIT_CURRENT, "current contents");
+        compareSelect.addOption(COMPARE_EDIT_EMPTY, "empty file");
         for (let filepath of filepaths) {
-            // XXX The drop down displays the changes between the selected
-            //     date and the immediately older date
-            //     This means that:
-            //      -  the first entry should be a dummy entry with the current
-            //         contents date that displays the diff from the current
-            //         contents to the first file in the history (probably no
-            //         changes if a revision was recently saved)
-            //      - the last entry is a diff from that entry's date to the 
-            //        empty file
-            //     Missing setting the first dummy entry
-            select.addOption(filepath, this.plugin.getEditLocalDateStr(filepath));
+            compareSelect.addOption(filepath, getEditStr(editHistory, filepath));
+        }
+        compareSelect.setValue(COMPARE_EDIT_PREVIOUS);
+        if (this.edit != null) {
+            select.setValue(this.edit);
+            if (select.selectEl.selectedIndex == -1) {
+                logWarn("Edit not found", this.edit);
+                select.selectEl.selectedIndex = 0;
+            }
         }
         // Force initialization done inside onChange
         select.selectEl.trigger("change");
-        
-        // Update the status bar
-        // XXX This shouldn't be here, but this is the best until it's done when
-        //     switching panes, etc (or use a timer?)
-        this.plugin.statusBarItemEl.setText(filepaths.length + " edits");
+    }
+
+    clear() {
+        const {contentEl, titleEl} = this;
+        contentEl.empty();
+        titleEl.empty();
+        this.versionCache.clear();
+        this.renderComponent?.unload();
+        this.renderComponent = null;
+        for (const url of this.objectUrls) {
+            URL.revokeObjectURL(url);
+        }
+        this.objectUrls = [];
+        this.searchElements = [];
+    }
+}
+
+class EditHistoryModal extends Modal { 
+    panel: EditHistoryPanel;
+
+    constructor(plugin: EditHistory, file: TFile|null = null, edit: string|null = null) { 
+        super(plugin.app);
+        this.panel = new EditHistoryPanel(plugin, this.contentEl, this.titleEl, file, edit, true, () => this.close());
+    }
+
+    async onOpen() {
+        this.modalEl.addClass("edit-history-modal");
+        await this.panel.render();
     }
 
     onClose() {
         logInfo("onClose");
+        this.panel.clear();
+    }
+}
+
+/**
+ * Side panel with the edit history of the active note
+ */
+class EditHistoryView extends ItemView {
+    plugin: EditHistory;
+    panel: EditHistoryPanel;
+    // Renders are chained so a render doesn't start before the previous one
+    // ends, eg when switching notes quickly
+    rendering: Promise<void> = Promise.resolve();
+
+    constructor(leaf: WorkspaceLeaf, plugin: EditHistory) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_EDIT_HISTORY;
+    }
+
+    getDisplayText(): string {
+        return "Edit history";
+    }
+
+    getIcon(): string {
+        return "clock";
+    }
+
+    async onOpen() {
         const {contentEl} = this;
-        contentEl.empty();
+        contentEl.addClass("edit-history-view");
+        const titleEl = contentEl.createDiv("edit-history-view-title");
+        const panelEl = contentEl.createDiv();
+        // Don't steal the focus from the editor when following the active
+        // note, and render again when the contents are no longer valid
+        this.panel = new EditHistoryPanel(this.plugin, panelEl, titleEl, 
+            this.app.workspace.getActiveFile(), null, false, () => this.refresh());
+        // Follow the active note
+        this.registerEvent(this.app.workspace.on("file-open", (file: TFile|null) => {
+            if ((file != null) && (file != this.panel.file)) {
+                this.panel.file = file;
+                this.panel.edit = null;
+                this.refresh();
+            }
+        }));
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.panel.clear();
+    }
+
+    /**
+     * Render the edit history again, eg after an edit is stored, keeping the
+     * selected edit
+     */
+    async refresh() {
+        this.rendering = this.rendering.then(async () => {
+            this.panel.clear();
+            await this.panel.render();
+        }).catch((e) => {
+            // Don't break the chain, following renders still need to run
+            logError("Error rendering edit history", e);
+        });
+        await this.rendering;
     }
 }
 
@@ -1718,7 +4484,7 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
 
         new Setting(containerEl)
             .setName("Minimum seconds between edits")
-            .setDesc("Minimum number of seconds that must pass from the previous edit to store a new edit, set to 0 to disable. Modifications done between those seconds will be merged into the next edit, reducing the edit history file size at the expense of less history granularity.")
+            .setDesc("Number of seconds without modifications to a note before storing a new edit, set to 0 to only store edits manually. Modifications done before those seconds pass will be merged into the same edit, reducing the edit history file size at the expense of less history granularity. Pending edits are also stored when the note is closed or the plugin is unloaded.")
             .addText(text => text
                 .setPlaceholder(DEFAULT_SETTINGS.minSecondsBetweenEdits)
                 .setValue(this.plugin.settings.minSecondsBetweenEdits)
@@ -1764,6 +4530,76 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("Thin out old edits")
+            .setDesc("Keep every edit from the last day, one edit per hour for the last week, one per day for the last month, and one per week after that. Removed edits are merged into the remaining ones in the next update, reducing the edit history file size while keeping a long history. The limits above are applied after thinning.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.thinEdits)
+                .onChange(async (value) => {
+                    logInfo("Thin out old edits: " + value);
+                    this.plugin.settings.thinEdits = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Edits between full snapshots")
+            .setDesc("Store one edit in full every this many edits, set to 0 to only store the most recent edit in full. Lower values make opening old edits faster at the expense of a larger edit history file. Only applies to new edits.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.keyframeInterval)
+                .setValue(this.plugin.settings.keyframeInterval)
+                .onChange(async (value) => {
+                    logInfo("Edits between full snapshots: " + value);
+                    this.plugin.settings.keyframeInterval = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Keep deleted notes' edit history")
+            .setDesc("When a note is deleted, move its edit history file to the hidden " + GRAVEYARD_FOLDER + " folder, so the note can be recovered with the command \"Recover deleted note\". Otherwise the edit history file is removed along with the note.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.keepDeletedEditHistory)
+                .onChange(async (value) => {
+                    logInfo("Keep deleted notes' edit history: " + value);
+                    this.plugin.settings.keepDeletedEditHistory = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Days to keep deleted notes' edit history")
+            .setDesc("Number of days to keep the edit history files of deleted notes, set to 0 for no limit. Older ones are removed when Obsidian starts.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.maxDeletedEditHistoryDays)
+                .setValue(this.plugin.settings.maxDeletedEditHistoryDays)
+                .onChange(async (value) => {
+                    logInfo("Days to keep deleted notes' edit history: " + value);
+                    this.plugin.settings.maxDeletedEditHistoryDays = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Removed edit history")
+            .setDesc("What to do with edit history files kept under an edit history folder or the deleted notes' edit history when they are removed (eg purged from the statistics view). Edit history files alongside the notes follow the Obsidian \"Deleted files\" setting instead. The system trash falls back to the Obsidian trash if not available.")
+            .addDropdown(dropdown => dropdown
+                .addOptions(editHistoryTrashToString)
+                .setValue(this.plugin.settings.editHistoryTrash)
+                .onChange(async (value) => {
+                    logInfo("Removed edit history: " + value);
+                    this.plugin.settings.editHistoryTrash = value;
+                    await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName("Edit history folder")
+            .setDesc("Folder where edit history files are kept, mirroring the folders of the notes: " + 
+                ((this.plugin.settings.editHistoryRootFolder == "") ? "alongside the notes" : this.plugin.settings.editHistoryRootFolder) + 
+                ". Folders starting with \".\" are hidden from the file explorer. Changing the folder moves all the existing edit history files.")
+            .addButton(button => button
+                .setButtonText("Change")
+                .onClick(() => {
+                    // Refresh the description with the new folder
+                    new MoveEditHistoryFilesModal(this.plugin, () => this.display()).open();
+                }));
+
         new Setting(containerEl)
             .setName("File extension whitelist")
             .setDesc("Comma separated list of file extensions to store edits for (case insensitive). Empty to store edits for all files.\nNote if an extension is removed, old edit history files will need to be removed manually.")
@@ -1803,7 +4639,7 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
 
         new Setting(containerEl)
             .setName("Diff display type")
-            .setDesc("In the diff view, display the diff raw, timeline, inline, horizontally (side by side), or vertically (top by bottom).")
+            .setDesc("In the diff view, display the diff raw, timeline, inline, horizontally (side by side), vertically (top by bottom), or rendered as Markdown.")
             .addDropdown(dropdown => dropdown
                 .addOptions(diffDisplayFormatToString)
                 .setValue(this.plugin.settings.diffDisplayFormat)
@@ -1813,6 +4649,63 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
                     await this.plugin.saveSettings();
             }));
 
+        new Setting(containerEl)
+            .setName("Diff granularity")
+            .setDesc("In the inline, side by side and top by bottom diff views, compute the changes by character, by word or by line. Word and line granularity are less noisy for prose.")
+            .addDropdown(dropdown => dropdown
+                .addOptions(diffGranularityToString)
+                .setValue(this.plugin.settings.diffGranularity)
+                .onChange(async (value) => {
+                    logInfo("Diff granularity: " + value);
+                    this.plugin.settings.diffGranularity = value;
+                    await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName("Ignore whitespace changes")
+            .setDesc("In the inline, side by side and top by bottom diff views, don't show changes in the amount of whitespace.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.ignoreWhitespace)
+                .onChange(async (value) => {
+                    logInfo("Ignore whitespace changes: " + value);
+                    this.plugin.settings.ignoreWhitespace = value;
+                    await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName("Ignore case changes")
+            .setDesc("In the inline, side by side and top by bottom diff views, don't show changes from uppercase to lowercase and viceversa.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.ignoreCase)
+                .onChange(async (value) => {
+                    logInfo("Ignore case changes: " + value);
+                    this.plugin.settings.ignoreCase = value;
+                    await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName("Ignore formatting changes")
+            .setDesc("In the inline, side by side and top by bottom diff views, don't show changes that only add or remove Markdown formatting: bold, italics, strikethrough, highlight and code, plus headings and quotes when the granularity is by line.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.ignoreMarkdown)
+                .onChange(async (value) => {
+                    logInfo("Ignore formatting changes: " + value);
+                    this.plugin.settings.ignoreMarkdown = value;
+                    await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName("Diff context lines")
+            .setDesc("Number of unchanged lines to show before and after each change in the inline, side by side and top by bottom diff views, the rest of the unchanged lines are collapsed and can be expanded by clicking on them. Set to 0 to show the whole note.")
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.diffContextLines)
+                .setValue(this.plugin.settings.diffContextLines)
+                .onChange(async (value) => {
+                    logInfo("Diff context lines: " + value);
+                    this.plugin.settings.diffContextLines = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName("Show whitespace")
             .setDesc("Show whitespace in the diff view.")
@@ -1824,6 +4717,18 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
                     await this.plugin.saveSettings();
             }));
 
+        new Setting(containerEl)
+            .setName("Show blame gutter")
+            .setDesc("Show next to the lines of the note in the editor the date of the edit that most recently modified each line. Hover over a date to see the full date and label, click on it to open the edit history at that edit. The dates are updated every time an edit is stored.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showBlameGutter)
+                .onChange(async (value) => {
+                    logInfo("Show blame gutter: " + value);
+                    this.plugin.settings.showBlameGutter = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.updateEditorExtensions();
+            }));
+
         containerEl.createEl("h3", {text: "Debugging"});
         new Setting(containerEl)
             .setName("Debug level")
@@ -1839,79 +4744,5 @@ class EditHistorySettingTab extends PluginSettingTab { plugin:
                     this.plugin.settings.debugLevel = value;
                     await this.plugin.saveSettings();
                 }));
-
-
-        /* XXX Issues with allowing a user-configured history folder: 
-            - any history folder will mimic the the structure of the note
-              directory (alternatively history files could be on a flat
-              directory with the name coming from a hash of the full path, but
-              that makes renaming more involved, and fishing for history files
-              less intuitive)
-
-            - due to an Obsidian design decision, folders cannot start with "."
-              so the user-defined history folder be visible in the file explorer
-                - Note this limitation is not consistently enforced through the
-                    API:
-                    - Obsidian does allow createBinary on a path starting with a
-                      dot and it successfully creates the file
-                    - Unfortunately getAbstractFileFromPath on a path starting
-                      with a dot fails so the file can be created (which only
-                      requires the path) but not modified (which requires a
-                      TAbstractFile)
-
-            - because it's visible, the user can rename the edit history folder
-              from the obsidian UI,
-                - renaming the topmost directory could be supported since the
-                  only thing needed would be to update the internal variable.
-                  Obisidan API notifies of the top level rename and each
-                  children, which can be ignored. This will need care depending
-                  on the reporting order of root vs. children and the update of
-                  the internal variable.
-                - if the user renames a non-top level directory then all
-                  children history files would go out of sync, so this is a
-                  problem.
-
-            - the Obsidian setting onChange gets called on every keystroke, so
-               configuring the edit history folder in settings would cause a
-               rename on each keystroke. There doesn't seem to be a final
-               changed(), hide() is not called either
-
-            - it's not clear whether the folder should be deleted if empty
-
-            - it's not clear if it's safe to just copy all the files found with
-              whatever extension new Setting(containerEl) .setName('Edits
-              folder') .setDesc('Folder to store the edit history file. Empty to
-              store the edit file in the same directory alongside the original
-              file. Due to Obsidian limitations this must start with a character
-              other than "."') .addText(text => text .setPlaceholder('Enter the
-              folder name')
-              .setValue(this.plugin.settings.editHistoryRootFolder)
-              .onChange(async (value) => { logInfo("onChange"); logInfo('Edits
-              folder: ' + value); // Only allow top level folders
-
-                    this.plugin.settings.editHistoryRootFolder = value;
-
-
-            XXX Can the folder just be renamed via the file explorer
-            interface? 
-
-            XXX Check no dir component starts with "." 
-
-            XXX Delete edits? copy them to new folder? trash them? 
-
-            XXX Ask the user to delete folder? 
-
-            XXX Ask for confirmation? 
-
-            XXX Use private apis to store in some hidden folder? 
-
-            XXX This could use the adapter apis instead of the vault apis //
-            be able to access the .obsidian dir? (or any other?)
-
-            XXX The directory doesn't need to be created on every keystroke,
-            it could have a create/commit button?
-        */
-
-
 }
 }
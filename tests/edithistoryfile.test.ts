@@ -0,0 +1,392 @@
+/*
+ * Tests of the edit history file access, run on Node without Obsidian with
+ * "npm test"
+ */
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { DiffMatchPatch } from "diff-match-patch-ts";
+
+import {
+    EditHistoryFile,
+    EditHistoryLimits,
+    getEditEpoch,
+    getEditIsDiff,
+    MemoryEditHistoryStorage
+} from "../edithistoryfile";
+
+const HISTORY_FILEPATH = "note.md.edtz";
+const T0 = Date.UTC(2024, 0, 1, 12);
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const NO_LIMITS: EditHistoryLimits = {
+    maxEdits: Infinity,
+    maxEditAgeMs: Infinity,
+    maxEditHistoryFileSize: Infinity,
+    keyframeInterval: Infinity,
+    thinEdits: false,
+};
+
+/**
+ * @return the contents of the note at the given edit number, every version
+ *         changes some lines and keeps others so patches are smaller than the
+ *         full version
+ */
+function buildVersion(i: number): string {
+    const lines = [];
+    for (let line = 0; line < 40; ++line) {
+        lines.push((line % 7 == i % 7) ? `line ${line} changed in version ${i}` : `line ${line} of the note`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * @return an edit history file with the given versions appended one minute
+ *         apart, oldest first
+ */
+async function buildEditHistoryFile(versions: string[], keyframeInterval = Infinity): Promise<EditHistoryFile> {
+    const editHistoryFile = new EditHistoryFile(new DiffMatchPatch());
+    for (let i = 0; i < versions.length; ++i) {
+        assert.ok(await editHistoryFile.appendEdit(versions[i], T0 + i * MINUTE_MS, keyframeInterval));
+    }
+    return editHistoryFile;
+}
+
+/**
+ * @return the versions of all the edits, oldest first
+ */
+async function getVersions(editHistoryFile: EditHistoryFile): Promise<string[]> {
+    const versions: string[] = [];
+    await editHistoryFile.forEachVersion((editFilename: string, data: string) => {
+        versions.unshift(data);
+    });
+    return versions;
+}
+
+/**
+ * @return the edit history file saved and loaded back
+ */
+async function reload(editHistoryFile: EditHistoryFile): Promise<EditHistoryFile> {
+    const loaded = new EditHistoryFile(editHistoryFile.dmpobj);
+    await loaded.load(await editHistoryFile.generate());
+    return loaded;
+}
+
+test("versions round-trip through patches", async () => {
+    const versions = Array.from({ length: 10 }, (_, i) => buildVersion(i));
+    const editHistoryFile = await reload(await buildEditHistoryFile(versions));
+    const edits = editHistoryFile.listEdits();
+
+    assert.strictEqual(edits.length, versions.length);
+    // Only the most recent edit is stored in full
+    assert.deepStrictEqual(edits.map(getEditIsDiff), edits.map((_, i) => i > 0));
+    assert.deepStrictEqual(await getVersions(editHistoryFile), versions);
+    for (let i = 0; i < edits.length; ++i) {
+        assert.strictEqual(getEditEpoch(edits[i]), T0 + (versions.length - 1 - i) * MINUTE_MS);
+        assert.strictEqual(await editHistoryFile.getVersion(edits[i]), versions[versions.length - 1 - i]);
+    }
+    assert.strictEqual(await editHistoryFile.getVersionAt(T0 + 2.5 * MINUTE_MS), versions[2]);
+    assert.strictEqual(await editHistoryFile.getVersionAt(T0 - 1), null);
+});
+
+test("unchanged contents are not stored", async () => {
+    const editHistoryFile = await buildEditHistoryFile([buildVersion(0)]);
+
+    assert.strictEqual(await editHistoryFile.appendEdit(buildVersion(0), T0 + MINUTE_MS), false);
+    assert.strictEqual(editHistoryFile.listEdits().length, 1);
+});
+
+test("colliding edits are stored one millisecond apart", async () => {
+    const editHistoryFile = await buildEditHistoryFile([buildVersion(0)]);
+
+    assert.ok(await editHistoryFile.appendEdit(buildVersion(1), T0));
+    assert.ok(await editHistoryFile.appendEdit(buildVersion(2), T0 - MINUTE_MS));
+    assert.deepStrictEqual(editHistoryFile.listEdits().map(getEditEpoch), [T0 + 2, T0 + 1, T0]);
+    assert.deepStrictEqual(await getVersions(editHistoryFile), [0, 1, 2].map(buildVersion));
+});
+
+test("edit filenames in seconds are still read", async () => {
+    const editHistoryFile = new EditHistoryFile(new DiffMatchPatch());
+    // Edit history file written before edit filenames were in milliseconds
+    editHistoryFile.zip.file((T0 / 1000).toString(36) + "$", buildVersion(0));
+    const loaded = await reload(editHistoryFile);
+
+    assert.ok(await loaded.appendEdit(buildVersion(1), T0 + MINUTE_MS));
+    assert.deepStrictEqual(loaded.listEdits().map(getEditEpoch), [T0 + MINUTE_MS, T0]);
+    assert.deepStrictEqual(await getVersions(await reload(loaded)), [0, 1].map(buildVersion));
+});
+
+test("keyframes are stored every keyframeInterval edits", async () => {
+    const versions = Array.from({ length: 10 }, (_, i) => buildVersion(i));
+    const editHistoryFile = await reload(await buildEditHistoryFile(versions, 3));
+    const edits = editHistoryFile.listEdits();
+
+    // Never more than 2 consecutive patches
+    assert.deepStrictEqual(edits.map(getEditIsDiff),
+        [false, false, true, true, false, true, true, false, true, true]);
+    assert.deepStrictEqual(await getVersions(editHistoryFile), versions);
+    // Rebuilding from the nearest keyframe, with and without cache
+    const cache = new Map<string, string>();
+    for (let i = 0; i < edits.length; ++i) {
+        assert.strictEqual(await editHistoryFile.getVersion(edits[i]), versions[versions.length - 1 - i]);
+        assert.strictEqual(await editHistoryFile.getVersion(edits[i], cache), versions[versions.length - 1 - i]);
+    }
+    // Iterating from an edit skips the edits newer than its keyframe
+    const visited: number[] = [];
+    await editHistoryFile.forEachVersion((editFilename: string, data: string, editData: string, index: number) => {
+        visited.push(index);
+        return true;
+    }, edits[5]);
+    assert.deepStrictEqual(visited, [4]);
+});
+
+test("storeEdit purges edits over the maximum number of edits", async () => {
+    const storage = new MemoryEditHistoryStorage(new DiffMatchPatch());
+    const limits = { ...NO_LIMITS, maxEdits: 3 };
+    for (let i = 0; i < 5; ++i) {
+        assert.strictEqual(await storage.storeEdit(HISTORY_FILEPATH, buildVersion(i), T0 + i * MINUTE_MS, limits, T0 + i * MINUTE_MS), Math.min(i + 1, 3));
+    }
+    const editHistoryFile = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+
+    assert.deepStrictEqual(await getVersions(editHistoryFile), [2, 3, 4].map(buildVersion));
+    // Storing unchanged contents doesn't store nor purge
+    assert.strictEqual(await storage.storeEdit(HISTORY_FILEPATH, buildVersion(4), T0 + 5 * MINUTE_MS, limits), null);
+});
+
+test("storeEdit purges edits over the maximum age", async () => {
+    const storage = new MemoryEditHistoryStorage(new DiffMatchPatch());
+    const limits = { ...NO_LIMITS, maxEditAgeMs: 2.5 * MINUTE_MS };
+    for (let i = 0; i < 5; ++i) {
+        await storage.storeEdit(HISTORY_FILEPATH, buildVersion(i), T0 + i * MINUTE_MS, limits, T0 + i * MINUTE_MS);
+    }
+    const editHistoryFile = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+
+    assert.deepStrictEqual(editHistoryFile.listEdits().map(getEditEpoch),
+        [4, 3, 2].map((i: number) => T0 + i * MINUTE_MS));
+    assert.deepStrictEqual(await getVersions(editHistoryFile), [2, 3, 4].map(buildVersion));
+});
+
+test("storeEdit purges edits over the maximum size", async () => {
+    const storage = new MemoryEditHistoryStorage(new DiffMatchPatch());
+    for (let i = 0; i < 20; ++i) {
+        await storage.storeEdit(HISTORY_FILEPATH, buildVersion(i), T0 + i * MINUTE_MS, NO_LIMITS, T0 + i * MINUTE_MS);
+    }
+    const size = (await storage.readHistoryFile(HISTORY_FILEPATH) as ArrayBuffer).byteLength;
+    const limits = { ...NO_LIMITS, maxEditHistoryFileSize: size / 2 };
+    await storage.storeEdit(HISTORY_FILEPATH, buildVersion(20), T0 + 20 * MINUTE_MS, limits, T0 + 20 * MINUTE_MS);
+    const editHistoryFile = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+    const numEdits = editHistoryFile.listEdits().length;
+
+    assert.ok(numEdits < 21);
+    // The oldest edits are purged and the remaining ones are intact
+    assert.deepStrictEqual(await getVersions(editHistoryFile),
+        Array.from({ length: numEdits }, (_, i) => buildVersion(21 - numEdits + i)));
+});
+
+test("purge reports the purged edits oldest first", async () => {
+    const editHistoryFile = await buildEditHistoryFile([0, 1, 2, 3].map(buildVersion));
+    const edits = editHistoryFile.listEdits();
+
+    assert.deepStrictEqual(editHistoryFile.purge({ ...NO_LIMITS, maxEdits: 2 }, T0, 1), [edits[3], edits[2], edits[1]]);
+    assert.deepStrictEqual(editHistoryFile.listEdits(), [edits[0]]);
+    assert.deepStrictEqual(editHistoryFile.purge(NO_LIMITS, T0), []);
+});
+
+test("removeEdits keeps the versions of the remaining edits", async () => {
+    const versions = Array.from({ length: 10 }, (_, i) => buildVersion(i));
+    for (const removedIndices of [[0], [9], [4, 5, 6], [0, 1, 8, 9], [1, 3, 5, 7]]) {
+        for (const keyframeInterval of [Infinity, 3]) {
+            const editHistoryFile = await buildEditHistoryFile(versions, keyframeInterval);
+            const edits = editHistoryFile.listEdits();
+            const removed = removedIndices.map((i: number) => edits[edits.length - 1 - i]);
+            const labeled = edits[edits.length - 1 - 2];
+            editHistoryFile.setEditLabel(labeled, { label: "kept", message: "" });
+            await editHistoryFile.removeEdits(removed, keyframeInterval);
+            const loaded = await reload(editHistoryFile);
+            const remaining = loaded.listEdits();
+
+            assert.deepStrictEqual(await getVersions(loaded),
+                versions.filter((_, i) => !removedIndices.includes(i)));
+            // The most recent edit is always stored in full
+            assert.ok(!getEditIsDiff(remaining[0]));
+            assert.deepStrictEqual(remaining.map(getEditEpoch), edits.map(getEditEpoch)
+                .filter((_, i) => !removedIndices.includes(edits.length - 1 - i)));
+            // Re-patched edits keep their labels
+            const labeledIndex = remaining.findIndex((editFilename: string) => getEditEpoch(editFilename) == getEditEpoch(labeled));
+            assert.strictEqual(labeledIndex != -1, !removedIndices.includes(2));
+            if (labeledIndex != -1) {
+                assert.deepStrictEqual(loaded.getEditLabel(remaining[labeledIndex]), { label: "kept", message: "" });
+            }
+        }
+    }
+});
+
+test("removing edits keeps the edits stored after listing them", async () => {
+    const storage = new MemoryEditHistoryStorage(new DiffMatchPatch());
+    for (let i = 0; i < 3; ++i) {
+        await storage.storeEdit(HISTORY_FILEPATH, buildVersion(i), T0 + i * MINUTE_MS, NO_LIMITS, T0 + i * MINUTE_MS);
+    }
+    // Edits as listed by the edit history panel when opened
+    const edits = (await storage.open(HISTORY_FILEPATH) as EditHistoryFile).listEdits();
+    // An edit stored while the panel is open renames the most recent edit
+    // from full to diff
+    await storage.storeEdit(HISTORY_FILEPATH, buildVersion(3), T0 + 3 * MINUTE_MS, NO_LIMITS, T0 + 3 * MINUTE_MS);
+
+    assert.strictEqual(await storage.removeEdits(HISTORY_FILEPATH, [edits[0], edits[2]]), 2);
+    const editHistoryFile = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+    assert.deepStrictEqual(await getVersions(editHistoryFile), [1, 3].map(buildVersion));
+    // Removing all the edits deletes the edit history file
+    assert.strictEqual(await storage.removeEdits(HISTORY_FILEPATH, editHistoryFile.listEdits()), 0);
+    assert.ok(!await storage.existsHistoryFile(HISTORY_FILEPATH));
+});
+
+test("thin keeps one edit per tier bucket and the labeled edits", async () => {
+    const dmpobj = new DiffMatchPatch();
+    const editHistoryFile = new EditHistoryFile(dmpobj);
+    const nowMs = Date.UTC(2024, 6, 1);
+    // Edits every 10 minutes from 3 days ago until now, the edits of the last
+    // day are kept and older ones are thinned to one per hour
+    const epochs: number[] = [];
+    for (let epoch = nowMs - 3 * DAY_MS; epoch <= nowMs; epoch += 10 * MINUTE_MS) {
+        epochs.push(epoch);
+    }
+    const versions = epochs.map((_, i) => buildVersion(i));
+    for (let i = 0; i < epochs.length; ++i) {
+        await editHistoryFile.appendEdit(versions[i], epochs[i]);
+    }
+    const labeled = editHistoryFile.listEdits().find((editFilename: string) =>
+        getEditEpoch(editFilename) == nowMs - 2 * DAY_MS + 10 * MINUTE_MS) as string;
+    editHistoryFile.setEditLabel(labeled, { label: "milestone", message: "" });
+
+    const thinned = await editHistoryFile.thin(nowMs);
+    const loaded = await reload(editHistoryFile);
+    const kept = loaded.listEdits().map(getEditEpoch);
+
+    assert.strictEqual(thinned.length + kept.length, epochs.length);
+    assert.ok(kept.includes(getEditEpoch(labeled)));
+    for (const epoch of epochs) {
+        const isKept = kept.includes(epoch);
+        if (nowMs - epoch <= DAY_MS) {
+            assert.ok(isKept, "edit of the last day not kept");
+        } else if (epoch != getEditEpoch(labeled)) {
+            // The most recent edit of each hour is kept, edits are 10 minutes
+            // apart and hours are aligned to the epoch
+            assert.strictEqual(isKept, epoch % (60 * MINUTE_MS) == 50 * MINUTE_MS);
+        }
+    }
+    const keptVersions = versions.filter((_, i) => kept.includes(epochs[i]));
+    assert.deepStrictEqual(await getVersions(loaded), keptVersions);
+    // Thinning again doesn't remove anything else
+    assert.deepStrictEqual(await loaded.thin(nowMs), []);
+});
+
+test("binary edits are stored in full", async () => {
+    const editHistoryFile = new EditHistoryFile(new DiffMatchPatch());
+    const data = [new Uint8Array([1, 2, 3]), new Uint8Array([4, 5, 6, 7])];
+    assert.ok(await editHistoryFile.appendEdit(data[0].buffer, T0));
+    assert.ok(await editHistoryFile.appendEdit(data[1].buffer, T0 + MINUTE_MS));
+    assert.strictEqual(await editHistoryFile.appendEdit(new Uint8Array([4, 5, 6, 7]).buffer, T0 + 2 * MINUTE_MS), false);
+    const loaded = await reload(editHistoryFile);
+    const edits = loaded.listEdits();
+
+    assert.deepStrictEqual(edits.map(getEditIsDiff), [false, false]);
+    assert.deepStrictEqual(new Uint8Array(await loaded.getEditBinaryData(edits[0])), data[1]);
+    assert.deepStrictEqual(new Uint8Array(await loaded.getEditBinaryData(edits[1])), data[0]);
+    assert.notStrictEqual(loaded.getEditHash(edits[0]), "");
+});
+
+test("binary edits only skip consecutive duplicates", async () => {
+    const editHistoryFile = new EditHistoryFile(new DiffMatchPatch());
+    assert.ok(await editHistoryFile.appendEdit(new Uint8Array([1, 2, 3]).buffer, T0));
+    assert.ok(await editHistoryFile.appendEdit(new Uint8Array([4, 5, 6]).buffer, T0 + MINUTE_MS));
+    assert.ok(await editHistoryFile.appendEdit(new Uint8Array([1, 2, 3]).buffer, T0 + 2 * MINUTE_MS));
+    const edits = editHistoryFile.listEdits();
+
+    assert.strictEqual(edits.length, 3);
+    assert.strictEqual(editHistoryFile.getEditHash(edits[0]), editHistoryFile.getEditHash(edits[2]));
+});
+
+test("labels and metadata are kept across saves", async () => {
+    const storage = new MemoryEditHistoryStorage(new DiffMatchPatch());
+    storage.device = "laptop";
+    await storage.storeEdit(HISTORY_FILEPATH, "hello\n", T0, NO_LIMITS);
+    await storage.storeEdit(HISTORY_FILEPATH, "hello world\n", T0 + MINUTE_MS, NO_LIMITS);
+    const editHistoryFile = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+    const edits = editHistoryFile.listEdits();
+    editHistoryFile.setEditLabel(edits[1], { label: "first", message: "the first version" });
+    await storage.save(HISTORY_FILEPATH, editHistoryFile);
+    const loaded = await storage.open(HISTORY_FILEPATH) as EditHistoryFile;
+
+    assert.deepStrictEqual(loaded.getEditLabel(edits[1]), { label: "first", message: "the first version" });
+    assert.strictEqual(loaded.getEditLabel(edits[0]), null);
+    assert.deepStrictEqual(loaded.getEditMetadata(edits[0]), { size: 12, added: 6, removed: 0, device: "laptop" });
+});
+
+test("merge takes the edits of the copy ahead", async () => {
+    const versions = Array.from({ length: 6 }, (_, i) => buildVersion(i));
+    for (const [numThis, numOther] of [[4, 6], [6, 4], [4, 4]]) {
+        const editHistoryFile = await buildEditHistoryFile(versions.slice(0, numThis));
+        // Copy that stopped being synced or was edited further
+        const other = await buildEditHistoryFile(versions.slice(0, numOther));
+
+        assert.strictEqual(await editHistoryFile.merge(other), true);
+        assert.deepStrictEqual(await getVersions(await reload(editHistoryFile)), versions.slice(0, Math.max(numThis, numOther)));
+    }
+});
+
+test("merge keeps the older edits missing from the copy ahead", async () => {
+    const versions = Array.from({ length: 10 }, (_, i) => buildVersion(i));
+    const editHistoryFile = await buildEditHistoryFile(versions.slice(0, 6));
+    editHistoryFile.setEditLabel(editHistoryFile.listEdits()[5], { label: "first", message: "" });
+    // Copy ahead whose oldest edits were purged
+    const other = new EditHistoryFile(editHistoryFile.dmpobj);
+    for (let i = 4; i < versions.length; ++i) {
+        await other.appendEdit(versions[i], T0 + i * MINUTE_MS, 3);
+    }
+
+    assert.strictEqual(await editHistoryFile.merge(other, 3), true);
+    const loaded = await reload(editHistoryFile);
+    const edits = loaded.listEdits();
+    assert.deepStrictEqual(await getVersions(loaded), versions);
+    assert.deepStrictEqual(edits.map(getEditEpoch), versions.map((_, i) => T0 + i * MINUTE_MS).reverse());
+    assert.deepStrictEqual(loaded.getEditLabel(edits[9]), { label: "first", message: "" });
+    // Never more than 2 consecutive patches
+    assert.ok(!edits.map((editFilename: string) => getEditIsDiff(editFilename) ? "d" : "f").join("").includes("ddd"));
+});
+
+test("merge doesn't merge diverged edits", async () => {
+    const versions = Array.from({ length: 6 }, (_, i) => buildVersion(i));
+    const editHistoryFile = await buildEditHistoryFile(versions.slice(0, 2));
+    await editHistoryFile.appendEdit(versions[2], T0 + 2 * MINUTE_MS);
+    await editHistoryFile.appendEdit(versions[4], T0 + 4 * MINUTE_MS);
+    // Copy forked after the second edit and edited at the same time
+    const other = await buildEditHistoryFile(versions.slice(0, 2));
+    await other.appendEdit(versions[3], T0 + 3 * MINUTE_MS);
+    await other.appendEdit(versions[5], T0 + 5 * MINUTE_MS);
+
+    assert.strictEqual(await editHistoryFile.merge(other), false);
+    assert.deepStrictEqual(await getVersions(await reload(editHistoryFile)), [0, 1, 2, 4].map(buildVersion));
+
+    // Copy forked after the second edit and edited later, its edits don't
+    // contain the changes of this copy's edits after the fork
+    const later = await buildEditHistoryFile(versions.slice(0, 2));
+    await later.appendEdit(versions[5], T0 + 5 * MINUTE_MS);
+
+    assert.strictEqual(await editHistoryFile.merge(later), false);
+    assert.deepStrictEqual(await getVersions(await reload(editHistoryFile)), [0, 1, 2, 4].map(buildVersion));
+});
+
+test("labels of edits named in seconds are kept when renamed", async () => {
+    const editHistoryFile = new EditHistoryFile(new DiffMatchPatch());
+    // Edit history file written before edit filenames were in milliseconds
+    editHistoryFile.zip.file((T0 / 1000).toString(36) + "$", buildVersion(0));
+    const loaded = await reload(editHistoryFile);
+    loaded.setEditLabel(loaded.listEdits()[0], { label: "L", message: "" });
+
+    // Re-diffing the edit renames it in milliseconds
+    assert.ok(await loaded.appendEdit(buildVersion(1), T0 + MINUTE_MS));
+    const edits = loaded.listEdits();
+
+    assert.strictEqual(edits[1], T0.toString(36));
+    assert.deepStrictEqual((await reload(loaded)).getEditLabel(edits[1]), { label: "L", message: "" });
+});